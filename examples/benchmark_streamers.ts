@@ -0,0 +1,65 @@
+import { ProviderStreamer, ParallelProviderStreamer, type MessageProvider } from '../src/message_provider.ts';
+import type { MessageStreamer } from '../src/indexer.ts';
+import type { StreamerMessage } from '../src/types.ts';
+import { makeMockFetcher } from './mock_fetcher.ts';
+
+// Throughput of the streamers against a synthetic provider with a fixed latency per block.
+// Also reports the peak number of fetched-but-unconsumed blocks, which must stay bounded
+// by the buffer size even when the consumer is slower than the provider.
+
+const BLOCKS = Number(process.env.BENCH_BLOCKS ?? 2000);
+const LATENCY_MS = Number(process.env.BENCH_LATENCY_MS ?? 5);
+
+class SyntheticProvider implements MessageProvider {
+  private template: Promise<StreamerMessage | null> = makeMockFetcher(0)({ chain_id: 'mainnet' }, 0);
+  public fetched = 0;
+
+  async getMessage(height: number): Promise<StreamerMessage | null> {
+    await new Promise((r) => setTimeout(r, LATENCY_MS));
+    this.fetched++;
+    const msg = (await this.template)!;
+    return { ...msg, block: { ...msg.block, header: { ...msg.block.header, height } } };
+  }
+}
+
+async function run(name: string, provider: SyntheticProvider, streamer: MessageStreamer, consumerDelayMs: number) {
+  const started = Date.now();
+  const { handle, receiver } = await streamer.stream(0, BLOCKS);
+  let consumed = 0;
+  let peakAhead = 0;
+  let expected = 0;
+  for await (const msg of receiver) {
+    if (msg.block.header.height !== expected++) throw new Error(`${name}: out of order at ${msg.block.header.height}`);
+    consumed++;
+    peakAhead = Math.max(peakAhead, provider.fetched - consumed);
+    if (consumerDelayMs) await new Promise((r) => setTimeout(r, consumerDelayMs));
+  }
+  await handle;
+  const secs = (Date.now() - started) / 1000;
+  console.log(
+    `${name.padEnd(48)} ${String(Math.round(consumed / secs)).padStart(6)} blocks/s, peak ahead of consumer: ${peakAhead}`,
+  );
+}
+
+async function main() {
+  console.log(`${BLOCKS} blocks, ${LATENCY_MS}ms provider latency`);
+  for (const consumerDelayMs of [0, LATENCY_MS]) {
+    console.log(consumerDelayMs ? `\nslow consumer (${consumerDelayMs}ms per block)` : '\nfast consumer');
+    let p = new SyntheticProvider();
+    await run('ProviderStreamer(buffer=100)', p, new ProviderStreamer(p, 100), consumerDelayMs);
+    for (const workers of [4, 16, 64]) {
+      p = new SyntheticProvider();
+      await run(
+        `ParallelProviderStreamer(workers=${workers}, buffer=100)`,
+        p,
+        new ParallelProviderStreamer(p, workers, { buffer_size: 100 }),
+        consumerDelayMs,
+      );
+    }
+  }
+}
+
+main().catch((e) => {
+  console.error(e);
+  process.exit(1);
+});
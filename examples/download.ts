@@ -1,25 +1,62 @@
-import { runIndexer, defaultOptions } from '../src/index.ts';
-import type { Indexer } from '../src/indexer.ts';
-import type { StreamerMessage } from '../src/types.ts';
-import { NeardataProvider, type Fetcher, type FetcherConfig } from '../src/neardata.ts';
+import { BlockArchive, downloadBlocks } from '../src/archive.ts';
+import {
+  type ChainId,
+  type FetcherConfig,
+  fetchLastBlockHeight,
+  makeNeardataHttpFetcherFromChain,
+} from '../src/neardata.ts';
 
-class DownloadIndexer implements Indexer<string> {
-  async processBlock(block: StreamerMessage): Promise<void> {
-    const height = block.block.header.height;
-    // Save somewhere: here only console
-    console.log(`Got block ${height}`);
-  }
-}
+// Saves a block range from neardata into a local archive that ArchiveProvider / makeArchiveFetcher can read:
+//   npm run example:download -- <mainnet|testnet> <start> <end_exclusive> <dir> [--gzip] [--concurrency N]
+// Rerunning the same command resumes: archived blocks are verified and kept.
 
-const exampleFetcher: Fetcher = async (_cfg: FetcherConfig, _height: number) => {
-  return null; // placeholder
-};
+function usage(): never {
+  console.error('usage: download.ts <mainnet|testnet> <start> <end_exclusive> <dir> [--gzip] [--concurrency N]');
+  process.exit(2);
+}
 
 async function main() {
-  const range = { kind: 'Range' as const, start_inclusive: 100, end_exclusive: 110 };
-  await runIndexer(new DownloadIndexer(), new NeardataProvider({ chain_id: 'mainnet' }, exampleFetcher), defaultOptions(range));
+  const args = process.argv.slice(2);
+  const gzip = args.includes('--gzip');
+  const cIdx = args.indexOf('--concurrency');
+  const concurrency = cIdx >= 0 ? Number(args[cIdx + 1]) : 4;
+  const positional = args.filter((a, i) => !a.startsWith('--') && (cIdx < 0 || i !== cIdx + 1));
+  if (positional.length !== 4) usage();
+  const [chain, startStr, endStr, dir] = positional;
+  const start = Number(startStr);
+  let end = Number(endStr);
+  if (!Number.isInteger(start) || !Number.isInteger(end) || end <= start) usage();
+
+  const cfg: FetcherConfig = { chain_id: chain as ChainId, finality: 'Final' };
+  // Heights above the final head would be archived as skipped
+  const head = await fetchLastBlockHeight(cfg.chain_id, 'Final');
+  if (end > head + 1) {
+    console.warn(`Clamping end to the final head ${head + 1}`);
+    end = head + 1;
+  }
+
+  const archive = new BlockArchive(dir, { gzip });
+  const controller = new AbortController();
+  process.once('SIGINT', () => controller.abort());
+
+  let done = 0;
+  const total = end - start;
+  const summary = await downloadBlocks(makeNeardataHttpFetcherFromChain(cfg.chain_id), cfg, archive, start, end, {
+    concurrency,
+    signal: controller.signal,
+    onProgress(height, status) {
+      done++;
+      if (status !== 'existing' && (done % 100 === 0 || done === total)) {
+        console.log(`${done}/${total} (last: ${height} ${status})`);
+      }
+    },
+  });
+  console.log(
+    `Done: ${summary.downloaded} downloaded, ${summary.skipped} skipped heights, ${summary.existing} already archived`,
+  );
 }
 
 main().catch((e) => {
   console.error(e);
+  process.exit(1);
 });
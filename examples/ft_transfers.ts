@@ -2,15 +2,10 @@ import {
   runIndexer,
   defaultOptions,
   AutoContinue,
-  NEP141_EVENT_STANDARD_STRING,
-  deserializeEventLog,
-  validateFtEvent,
-  deserializeTknFarmTransferLog,
+  EventRouterIndexer,
+  LegacyLogRegistry,
 } from '../src/index.ts';
-import type { Indexer } from '../src/indexer.ts';
-import type { StreamerMessage, IndexerExecutionOutcomeWithReceipt } from '../src/types.ts';
 import { NeardataProvider, type Fetcher, fetchFirstBlockHeight, makeNeardataHttpFetcherFromChain } from '../src/neardata.ts';
-import { MAINNET_GENESIS_BLOCK_HEIGHT } from '../src/near_utils.ts';
 import { promises as fs } from 'node:fs';
 import path from 'node:path';
 
@@ -32,34 +27,6 @@ class FileSaveLocation {
   }
 }
 
-class FtTransferIndexer implements Indexer<string> {
-  async processReceipt(receipt: IndexerExecutionOutcomeWithReceipt, _block: StreamerMessage) {
-    const status = receipt.execution_outcome.outcome.status;
-    if (status.kind === 'Failure') return;
-    const token_id = receipt.receipt.receiver_id;
-    const logs = receipt.execution_outcome.outcome.logs ?? [];
-    const transfers: { old_owner_id: string; new_owner_id: string; amount: string }[] = [];
-    for (const log of logs) {
-      try {
-        const evt = deserializeEventLog<any>(log);
-        if (validateFtEvent(evt, 'ft_transfer')) {
-          transfers.push(...evt.data);
-          continue;
-        }
-      } catch {}
-      try {
-        const arr = deserializeTknFarmTransferLog(log);
-        transfers.push(...arr);
-      } catch {}
-    }
-    for (const t of transfers) {
-      console.info(
-        `${t.old_owner_id} --> ${t.new_owner_id}: ${t.amount} ${token_id}, https://nearblocks.io?query=${receipt.receipt.receipt_id}`,
-      );
-    }
-  }
-}
-
 // Choose ONE: mock fetcher for local demo, or real HTTP fetcher.
 // 1) Mock fetcher (runs instantly with synthetic data):
 // const exampleFetcher: Fetcher = makeMockFetcher(139_770_436);
@@ -79,14 +46,20 @@ async function main() {
   const ac = new AutoContinue(save, start!);
   const range = { kind: 'AutoContinue' as const, auto: ac };
 
-  const indexer = new FtTransferIndexer();
+  // One transfer stream: NEP-297 ft_transfer events, plus older free-text logs
+  // ("Transfer <amount> from <old> to <new>") of tkn.farm tokens and wrap.near normalized into the same shape
+  const indexer = new EventRouterIndexer({ legacy_logs: new LegacyLogRegistry() }).on(
+    { standard: 'nep141', event: 'ft_transfer', version: '1.x' },
+    (transfers, ctx) => {
+      for (const t of transfers) {
+        console.info(
+          `${t.old_owner_id} --> ${t.new_owner_id}: ${t.amount} ${ctx.contract_id}, https://nearblocks.io?query=${ctx.receipt.receipt.receipt_id}`,
+        );
+      }
+    },
+  );
   const streamer = new NeardataProvider({ chain_id: 'mainnet', finality: 'Final' }, exampleFetcher);
-  const options = {
-    ...defaultOptions(range),
-    genesis_block_height: MAINNET_GENESIS_BLOCK_HEIGHT,
-  };
-
-  await runIndexer(indexer, streamer, options);
+  await runIndexer(indexer, streamer, defaultOptions(range));
 }
 
 main().catch((e) => {
@@ -24,40 +24,103 @@ export const makeMockFetcher = (startHeight = 100): Fetcher => {
         ],
       });
 
+    const block_hash = `block-${height}`;
+    const outcome = (id: string, executor_id: string, receipt_ids: string[], logs: string[]) => ({
+      block_hash,
+      id,
+      outcome: {
+        logs,
+        receipt_ids,
+        gas_burnt: 2_428_000_000_000,
+        tokens_burnt: '242800000000000000000',
+        executor_id,
+        status,
+      },
+    });
+
     return {
       block: {
+        author: 'validator.near',
         header: {
           height,
+          prev_height: height - 1,
+          epoch_id: 'epoch-0',
+          next_epoch_id: 'epoch-1',
+          hash: block_hash,
+          prev_hash: `block-${height - 1}`,
+          chunks_included: 1,
+          timestamp: Number(1_700_000_000_000_000_000n + BigInt(height)),
           timestamp_nanosec: String(1_700_000_000_000_000_000n + BigInt(height)),
+          gas_price: '100000000',
+          last_final_block: `block-${height - 2}`,
         },
+        chunks: [],
       },
       shards: [
         {
           shard_id: 0,
           chunk: {
+            author: 'validator.near',
+            header: {
+              chunk_hash: `chunk-${height}`,
+              prev_block_hash: `block-${height - 1}`,
+              height_created: height,
+              height_included: height,
+              shard_id: 0,
+              gas_used: 0,
+              gas_limit: 1_000_000_000_000_000,
+              balance_burnt: '0',
+              tx_root: '11111111111111111111111111111111',
+            },
             transactions: [
               {
                 transaction: {
                   hash: `tx-${height}`,
                   signer_id: 'signer.near',
+                  public_key: 'ed25519:11111111111111111111111111111111',
+                  nonce: height,
                   receiver_id: 'token.near',
+                  actions: [
+                    {
+                      FunctionCall: {
+                        method_name: 'ft_transfer',
+                        args: Buffer.from(
+                          JSON.stringify({ receiver_id: 'bob.near', amount: '1000000000000000000000' }),
+                        ).toString('base64'),
+                        gas: 30_000_000_000_000,
+                        deposit: '1',
+                      },
+                    },
+                  ],
+                  signature: 'ed25519:1111111111111111111111111111111111111111111111111111111111111111',
                 },
                 outcome: {
-                  execution_outcome: {
-                    outcome: {
-                      receipt_ids: [receipt_id],
-                    },
-                  },
+                  execution_outcome: outcome(`tx-${height}`, 'signer.near', [receipt_id], []),
+                  receipt: null,
                 },
               },
             ],
+            receipts: [],
           },
           receipt_execution_outcomes: [
             {
-              receipt: { receipt_id, receiver_id: 'token.near' },
-              execution_outcome: {
-                outcome: { status, receipt_ids: [], logs: [ftLog] },
+              receipt: {
+                predecessor_id: 'signer.near',
+                receiver_id: 'token.near',
+                receipt_id,
+                receipt: {
+                  Action: {
+                    signer_id: 'signer.near',
+                    signer_public_key: 'ed25519:11111111111111111111111111111111',
+                    gas_price: '100000000',
+                    output_data_receivers: [],
+                    input_data_ids: [],
+                    actions: [],
+                  },
+                },
               },
+              execution_outcome: outcome(receipt_id, 'token.near', [], [ftLog]),
+              tx_hash: `tx-${height}`,
             },
           ],
         },
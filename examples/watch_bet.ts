@@ -2,23 +2,15 @@ import {
     runIndexer,
     defaultOptions,
     AutoContinue,
-    deserializeEventLog,
-    validateFtEvent,
+    EventRouterIndexer,
+    chainIndexers,
+    withFetchPolicy,
 } from '../src/index.ts';
-import type {
-    Indexer,
-} from '../src/indexer.ts';
-import type {
-    StreamerMessage,
-    IndexerExecutionOutcomeWithReceipt,
-    IndexerTransactionWithOutcome,
-} from '../src/types.ts';
 import {
     NeardataProvider,
     makeNeardataHttpFetcherFromChain,
     fetchLastBlockHeight,
 } from '../src/neardata.ts';
-import { TESTNET_GENESIS_BLOCK_HEIGHT } from '../src/near_utils.ts';
 import { promises as fs } from 'node:fs';
 import path from 'node:path';
 
@@ -44,94 +36,6 @@ class FileSaveLocation {
     }
 }
 
-function safeBase64Json<T = any>(b64: string): T | undefined {
-    try {
-        const text = Buffer.from(b64, 'base64').toString('utf8');
-        return JSON.parse(text);
-    } catch {
-        return undefined;
-    }
-}
-
-class WatchBetIndexer implements Indexer<string> {
-    // Detect events by reading receipt execution outcome logs (NEAR events live here)
-    async processReceipt(receipt: IndexerExecutionOutcomeWithReceipt, _block: StreamerMessage) {
-        const contract = receipt.receipt.receiver_id;
-        const logs = receipt.execution_outcome.outcome.logs ?? [];
-
-        for (const log of logs) {
-            // Try NEP-297 style first
-            try {
-                const evt = deserializeEventLog<any>(log);
-
-                // FT transfers on TOKEN_CONTRACT
-                if (contract === TOKEN_CONTRACT && validateFtEvent(evt, 'ft_transfer')) {
-                    for (const t of evt.data as Array<{ old_owner_id: string; new_owner_id: string; amount: string }>) {
-                        console.log(`[ft_transfer] ${t.old_owner_id} -> ${t.new_owner_id}: ${t.amount} ${contract}, rid=${receipt.receipt.receipt_id}`);
-                    }
-                    continue;
-                }
-
-                // Coinflip events on COINFLIP_CONTRACT
-                if ((evt.event === 'BetPlaced' || evt.event === 'BetSettled')) {
-                    console.log(`[${evt.event}]`, JSON.stringify(evt.data));
-                    continue;
-                }
-            } catch {
-                // console.error('Raw log:', deserializeEventLog(log));
-                console.error('Nothing found, parsed NEP-297 event:', deserializeEventLog(log));
-            }
-
-            // Fallback: raw substring match for Coinflip logs (non-NEP-297)
-            if ( (log.includes('BetPlaced') || log.includes('BetSettled'))) {
-                console.log(`[CoinflipLog] ${log}`);
-            }
-        }
-    }
-}
-
-function sleep(ms: number) {
-    return new Promise((resolve) => setTimeout(resolve, ms));
-}
-
-// Wrap a fetcher with a polite rate limit and 429 backoff to stay under FASTNEAR limits
-function withRateLimitFetcher(
-    fetcher: ReturnType<typeof makeNeardataHttpFetcherFromChain>,
-    opts: { minIntervalMs?: number; nullDelayMs?: number; on429DelayMs?: number; maxRetries?: number } = {},
-) {
-    const minIntervalMs = opts.minIntervalMs ?? 400; // ~150 req/min < 180 limit
-    const nullDelayMs = opts.nullDelayMs ?? 200; // small pause on nulls to avoid hammering
-    const on429DelayMs = opts.on429DelayMs ?? 5000;
-    const maxRetries = opts.maxRetries ?? 3;
-    let lastCall = 0;
-    return async (cfg: Parameters<typeof fetcher>[0], height: number) => {
-        const now = Date.now();
-        const delta = now - lastCall;
-        if (delta < minIntervalMs) await sleep(minIntervalMs - delta);
-        lastCall = Date.now();
-
-        for (let attempt = 0; attempt <= maxRetries; attempt++) {
-            try {
-                const msg = await fetcher(cfg as any, height);
-                if (msg === null) {
-                    await sleep(nullDelayMs);
-                }
-                return msg;
-            } catch (e: any) {
-                const msg = String(e?.message ?? e ?? '');
-                if (msg.includes('429') || msg.toLowerCase().includes('rate-limit')) {
-                    // Back off then retry
-                    await sleep(on429DelayMs);
-                    continue;
-                }
-                throw e;
-            }
-        }
-        // Last try
-        return fetcher(cfg as any, height);
-    };
-}
-
 async function main() {
     const savePath = path.resolve('example_watch_bet_last_block.txt');
     const save = new FileSaveLocation(savePath);
@@ -143,26 +47,43 @@ async function main() {
     const ac = new AutoContinue(save, start!);
     const range = { kind: 'AutoContinue' as const, auto: ac };
 
-    const indexer = new WatchBetIndexer();
+    // NEAR events live in receipt execution outcome logs; the router parses them once
+    // and skips logs that are not NEP-297 events
+    const router = new EventRouterIndexer({
+        onInvalidEvent: (log, error, ctx) => console.warn(`[invalid event] ${ctx.contract_id}: ${String(error)} ${log}`),
+    })
+        .on({ contract: TOKEN_CONTRACT, standard: 'nep141', event: 'ft_transfer', version: '1.x' }, (transfers, ctx) => {
+            for (const t of transfers) {
+                console.log(`[ft_transfer] ${t.old_owner_id} -> ${t.new_owner_id}: ${t.amount} ${ctx.contract_id}, rid=${ctx.receipt.receipt.receipt_id}`);
+            }
+        })
+        .on({ contract: COINFLIP_CONTRACT, event: ['BetPlaced', 'BetSettled'] }, (data, ctx) => {
+            console.log(`[${ctx.event}]`, JSON.stringify(data));
+        });
+    // Fallback: older Coinflip deployments log bets as plain text, which the router ignores
+    const indexer = chainIndexers(router, {
+        async processReceipt(receipt) {
+            if (receipt.receipt.receiver_id !== COINFLIP_CONTRACT) return;
+            for (const log of receipt.execution_outcome.outcome.logs ?? []) {
+                if (log.startsWith('EVENT_JSON:')) continue;
+                if (log.includes('BetPlaced') || log.includes('BetSettled')) {
+                    console.log(`[CoinflipLog] ${log}`);
+                }
+            }
+        },
+    });
     const baseFetcher = makeNeardataHttpFetcherFromChain('testnet');
-    const fetcher = withRateLimitFetcher(baseFetcher, {
-        minIntervalMs:10,
-        nullDelayMs: 20,
-        on429DelayMs: 5000,
-        maxRetries: 3,
-
-        //         minIntervalMs: 400,
-        // nullDelayMs: 200,
-        // on429DelayMs: 5000,
-        // maxRetries: 3,
+    // Stay under FASTNEAR limits (~180 req/min) and honor Retry-After on 429s
+    const fetcher = withFetchPolicy(baseFetcher, {
+        rate_limit: { requests_per_second: 2.5, burst: 5 },
+        retry: { max_retries: 5 },
+        circuit_breaker: { failure_threshold: 10, cooldown_ms: 30_000 },
     });
-    const streamer = new NeardataProvider({ chain_id: 'testnet', finality: 'Final' }, fetcher as any);
-    const options = {
-        ...defaultOptions(range),
-        genesis_block_height: TESTNET_GENESIS_BLOCK_HEIGHT,
-    };
-
-    await runIndexer(indexer, streamer, options);
+    // Live tail: wait for blocks that are not produced yet instead of skipping them
+    const streamer = new NeardataProvider({ chain_id: 'testnet', finality: 'Final' }, fetcher, {
+        poll_interval_ms: 1000,
+    });
+    await runIndexer(indexer, streamer, defaultOptions(range));
 }
 
 main().catch((e) => {
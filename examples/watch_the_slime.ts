@@ -1,13 +1,13 @@
 import { runIndexer, defaultOptions } from '../src/index.ts';
-import type { Indexer } from '../src/indexer.ts';
-import type { StreamerMessage, IndexerExecutionOutcomeWithReceipt, IndexerTransactionWithOutcome } from '../src/types.ts';
+import type { CompleteTransaction, Indexer } from '../src/indexer.ts';
+import type { StreamerMessage } from '../src/types.ts';
 import { NeardataProvider, type Fetcher, type FetcherConfig } from '../src/neardata.ts';
 
 class WatcherIndexer implements Indexer<string> {
   constructor(private trackedAccount: string) {}
 
   async onTransaction(
-    transaction: { transaction: IndexerTransactionWithOutcome } & { receipts: any[]; allReceiptsSuccessful(): boolean },
+    transaction: CompleteTransaction,
     _block: StreamerMessage,
   ): Promise<void> {
     if (transaction.transaction.transaction.signer_id === this.trackedAccount) {
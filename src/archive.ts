@@ -0,0 +1,172 @@
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import { promisify } from 'node:util';
+import { gunzip as gunzipCb, gzip as gzipCb } from 'node:zlib';
+import type { BlockHeight, StreamerMessage } from './types.js';
+import type { MessageProvider } from './message_provider.js';
+import type { Fetcher, FetcherConfig } from './neardata.js';
+import type { ChainId } from './networks.js';
+
+const gzip = promisify(gzipCb);
+const gunzip = promisify(gunzipCb);
+
+// Local block archive: one file per height, sharded as
+//   <dir>/<first 6 digits>/<next 3 digits>/<height>.json[.gz]
+// of the 12-digit zero-padded height, so each leaf folder holds at most 1000 blocks.
+// Heights skipped by the chain are stored as `null`, which lets downloads resume without refetching them.
+
+export interface BlockArchiveOptions {
+  gzip?: boolean; // compress newly written files; both forms are read. Default false
+  // What reading a height that was never downloaded does: 'error' (default) or 'skip' (null)
+  missing?: 'error' | 'skip';
+  network?: ChainId; // the chain the archive holds, passed on by ArchiveProvider
+}
+
+export class MissingArchiveBlockError extends Error {
+  public height: BlockHeight;
+  constructor(height: BlockHeight, dir: string) {
+    super(`Block ${height} is not in the archive at ${dir}`);
+    this.name = 'MissingArchiveBlockError';
+    this.height = height;
+  }
+}
+
+export class BlockArchive {
+  public dir: string;
+  public options: BlockArchiveOptions;
+  constructor(dir: string, options: BlockArchiveOptions = {}) {
+    this.dir = dir;
+    this.options = options;
+  }
+
+  path(height: BlockHeight, gzipped = !!this.options.gzip): string {
+    const padded = String(height).padStart(12, '0');
+    const file = `${height}.json${gzipped ? '.gz' : ''}`;
+    return path.join(this.dir, padded.slice(0, 6), padded.slice(6, 9), file);
+  }
+
+  // undefined: not archived; null: skipped height
+  async read(height: BlockHeight): Promise<StreamerMessage | null | undefined> {
+    for (const gzipped of [!!this.options.gzip, !this.options.gzip]) {
+      let buf: Buffer;
+      try {
+        buf = await fs.readFile(this.path(height, gzipped));
+      } catch (e: any) {
+        if (e?.code === 'ENOENT') continue;
+        throw e;
+      }
+      const text = (gzipped ? await gunzip(buf) : buf).toString('utf8');
+      const msg = JSON.parse(text) as StreamerMessage | null;
+      if (msg !== null && msg?.block?.header?.height !== height) {
+        throw new Error(`Archive file for block ${height} holds block ${msg?.block?.header?.height}`);
+      }
+      return msg;
+    }
+    return undefined;
+  }
+
+  // True if the height is archived and its file decodes to the right block
+  async has(height: BlockHeight): Promise<boolean> {
+    try {
+      return (await this.read(height)) !== undefined;
+    } catch {
+      return false;
+    }
+  }
+
+  // Writes through a temporary file and reads the result back to verify it
+  async write(height: BlockHeight, msg: StreamerMessage | null): Promise<void> {
+    if (msg !== null && msg.block.header.height !== height) {
+      throw new Error(`Refusing to archive block ${msg.block.header.height} as ${height}`);
+    }
+    const target = this.path(height);
+    await fs.mkdir(path.dirname(target), { recursive: true });
+    const text = Buffer.from(JSON.stringify(msg), 'utf8');
+    const tmp = `${target}.${process.pid}.tmp`;
+    await fs.writeFile(tmp, this.options.gzip ? await gzip(text) : text);
+    await fs.rename(tmp, target);
+    // A stale copy in the other encoding would shadow or contradict this one
+    await fs.rm(this.path(height, !this.options.gzip), { force: true });
+    const back = await this.read(height);
+    if (back === undefined || JSON.stringify(back) !== text.toString('utf8')) {
+      throw new Error(`Verification of archived block ${height} failed`);
+    }
+  }
+}
+
+export class ArchiveProvider implements MessageProvider {
+  public readonly network?: ChainId;
+  private archive: BlockArchive;
+  constructor(archive: BlockArchive | string, options: BlockArchiveOptions = {}) {
+    this.archive = typeof archive === 'string' ? new BlockArchive(archive, options) : archive;
+    this.network = options.network ?? this.archive.options.network;
+  }
+
+  async getMessage(height: BlockHeight): Promise<StreamerMessage | null> {
+    const msg = await this.archive.read(height);
+    if (msg !== undefined) return msg;
+    if (this.archive.options.missing === 'skip') return null;
+    throw new MissingArchiveBlockError(height, this.archive.dir);
+  }
+}
+
+// Fetcher over an archive, e.g. for NeardataProvider in tests and backfills without network
+export function makeArchiveFetcher(archive: BlockArchive | string, options: BlockArchiveOptions = {}): Fetcher {
+  const provider = new ArchiveProvider(archive, options);
+  return async (_cfg: FetcherConfig, height: BlockHeight) => provider.getMessage(height);
+}
+
+export interface DownloadOptions {
+  concurrency?: number; // default 4
+  signal?: AbortSignal;
+  onProgress?(height: BlockHeight, status: 'downloaded' | 'skipped' | 'existing'): void;
+}
+
+export interface DownloadSummary {
+  downloaded: number;
+  skipped: number; // heights without a block
+  existing: number; // already archived and verified
+}
+
+// Saves [start, endExclusive) into the archive. Already archived heights are verified and kept,
+// so an interrupted download resumes where it stopped. Only download finalized history:
+// a null from the fetcher is archived as a skipped height.
+export async function downloadBlocks(
+  fetcher: Fetcher,
+  cfg: FetcherConfig,
+  archive: BlockArchive,
+  start: BlockHeight,
+  endExclusive: BlockHeight,
+  options: DownloadOptions = {},
+): Promise<DownloadSummary> {
+  const summary: DownloadSummary = { downloaded: 0, skipped: 0, existing: 0 };
+  let next = start;
+  let failed = false;
+  const worker = async () => {
+    while (next < endExclusive && !failed && !options.signal?.aborted) {
+      const height = next++;
+      let status: 'downloaded' | 'skipped' | 'existing';
+      try {
+        if (await archive.has(height)) {
+          status = 'existing';
+        } else {
+          const msg = await fetcher(cfg, height);
+          await archive.write(height, msg);
+          status = msg ? 'downloaded' : 'skipped';
+        }
+      } catch (e) {
+        failed = true; // let the other workers stop after their current height
+        throw e;
+      }
+      summary[status]++;
+      options.onProgress?.(height, status);
+    }
+  };
+  // Wait for every worker, so nothing is still writing when the error reaches the caller
+  const results = await Promise.allSettled(
+    Array.from({ length: Math.max(1, options.concurrency ?? 4) }, worker),
+  );
+  const rejected = results.find((r): r is PromiseRejectedResult => r.status === 'rejected');
+  if (rejected) throw rejected.reason;
+  return summary;
+}
@@ -0,0 +1,99 @@
+// Small async helpers shared by the streamers. Not part of the public surface.
+
+// Resolves after `ms`, or early (without throwing) once `signal` is aborted
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    if (signal?.aborted) return resolve();
+    const onAbort = () => {
+      clearTimeout(timer);
+      resolve();
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+// AbortController that is also aborted by `parent`; dispose() detaches it from `parent`
+export function linkedAbortController(parent?: AbortSignal): AbortController & { dispose(): void } {
+  const controller = new AbortController();
+  const onAbort = () => controller.abort();
+  if (parent?.aborted) controller.abort();
+  else parent?.addEventListener('abort', onAbort, { once: true });
+  return Object.assign(controller, { dispose: () => parent?.removeEventListener('abort', onAbort) });
+}
+
+// Bounded async queue bridging producer and consumer: push() waits while the buffer is full
+export class AsyncQueue<T> {
+  private values: T[] = [];
+  private resolvers: ((value: IteratorResult<T>) => void)[] = [];
+  private spaceWaiters: (() => void)[] = [];
+  private capacity: number;
+  private done = false;
+  private error: unknown = undefined;
+
+  constructor(capacity = Number.POSITIVE_INFINITY) {
+    this.capacity = Math.max(1, capacity);
+  }
+
+  get size() {
+    return this.values.length;
+  }
+
+  get closed() {
+    return this.done;
+  }
+
+  // Resolves to true once the value is handed over or buffered, to false when the queue is
+  // closed (e.g. the consumer stopped) and the producer should stop too
+  async push(v: T): Promise<boolean> {
+    while (!this.done && !this.resolvers.length && this.values.length >= this.capacity) {
+      await new Promise<void>((resolve) => this.spaceWaiters.push(resolve));
+    }
+    if (this.done) return false;
+    if (this.resolvers.length) {
+      const r = this.resolvers.shift()!;
+      r({ value: v, done: false });
+    } else {
+      this.values.push(v);
+    }
+    return true;
+  }
+
+  // With `error`, the receiver throws it once the buffered values are drained
+  close(error?: unknown) {
+    if (this.done) return;
+    this.done = true;
+    this.error = error;
+    for (const r of this.resolvers) r({ value: undefined as any, done: true });
+    this.resolvers = [];
+    for (const w of this.spaceWaiters) w();
+    this.spaceWaiters = [];
+  }
+
+  async *iterator(): AsyncGenerator<T> {
+    try {
+      while (true) {
+        if (this.values.length) {
+          const v = this.values.shift()!;
+          this.spaceWaiters.shift()?.();
+          yield v;
+          continue;
+        }
+        if (this.done) break;
+        const v = await new Promise<IteratorResult<T>>((resolve) => {
+          this.resolvers.push(resolve);
+          this.spaceWaiters.shift()?.();
+        });
+        if (v.done) break;
+        yield v.value as T;
+      }
+      if (this.error !== undefined) throw this.error;
+    } finally {
+      // The consumer stopped early: release a producer blocked on push()
+      this.close();
+    }
+  }
+}
@@ -0,0 +1,96 @@
+import type { BlockHeight, CryptoHash, StreamerMessage } from './types.js';
+import type { MessageStreamer } from './indexer.js';
+
+// Verifies that delivered blocks chain together: each block's prev_hash must be the hash of the
+// block delivered before it. Heights skipped by the chain need no special care, since prev_hash
+// points to the last produced block. A mismatch means a block was dropped or altered on the way,
+// e.g. by a lagging mirror or a corrupted cache.
+
+export interface ContinuityOptions {
+  // Trusted source for the heights around a mismatch. Without it a mismatch throws
+  refetch?: (height: BlockHeight) => Promise<StreamerMessage | null>;
+  // Called for every mismatch, including those repaired by refetching
+  onMismatch?(error: BlockContinuityError): void;
+}
+
+export class BlockContinuityError extends Error {
+  public height: BlockHeight;
+  public previous_height: BlockHeight;
+  public expected_prev_hash: CryptoHash;
+  public actual_prev_hash: CryptoHash;
+  constructor(height: BlockHeight, previous_height: BlockHeight, expected: CryptoHash, actual: CryptoHash) {
+    super(
+      `Block ${height} does not follow block ${previous_height}: prev_hash is ${actual}, expected ${expected}`,
+    );
+    this.name = 'BlockContinuityError';
+    this.height = height;
+    this.previous_height = previous_height;
+    this.expected_prev_hash = expected;
+    this.actual_prev_hash = actual;
+  }
+}
+
+export class ContinuityVerifier implements MessageStreamer {
+  private streamer: MessageStreamer;
+  private options: ContinuityOptions;
+  constructor(streamer: MessageStreamer, options: ContinuityOptions = {}) {
+    this.streamer = streamer;
+    this.options = options;
+  }
+
+  get network() {
+    return this.streamer.network;
+  }
+
+  async stream(first: BlockHeight, lastExclusive?: BlockHeight, signal?: AbortSignal) {
+    const { handle, receiver } = await this.streamer.stream(first, lastExclusive, signal);
+    return { handle, receiver: this.verify(receiver) };
+  }
+
+  private async *verify(receiver: AsyncGenerator<StreamerMessage>): AsyncGenerator<StreamerMessage> {
+    let previous: StreamerMessage | undefined;
+    try {
+      for await (const message of receiver) {
+        const header = message.block.header;
+        if (!previous || header.prev_hash === previous.block.header.hash) {
+          previous = message;
+          yield message;
+          continue;
+        }
+        const prev = previous.block.header;
+        const error = new BlockContinuityError(header.height, prev.height, prev.hash, header.prev_hash);
+        this.options.onMismatch?.(error);
+        if (!this.options.refetch) throw error;
+        for (const repaired of await this.repair(previous, header.height, error)) {
+          previous = repaired;
+          yield repaired;
+        }
+      }
+    } finally {
+      await receiver.return(undefined);
+    }
+  }
+
+  // Refetches (previous, height] and returns it if it chains onto `previous`
+  private async repair(
+    previous: StreamerMessage,
+    height: BlockHeight,
+    error: BlockContinuityError,
+  ): Promise<StreamerMessage[]> {
+    const blocks: StreamerMessage[] = [];
+    let tip = previous.block.header;
+    for (let h = tip.height + 1; h <= height; h++) {
+      const msg = await this.options.refetch!(h);
+      if (!msg) continue;
+      if (msg.block.header.prev_hash !== tip.hash) {
+        // The trusted source disagrees too: `previous` itself is bad, which cannot be undone here
+        throw error;
+      }
+      blocks.push(msg);
+      tip = msg.block.header;
+    }
+    // The refetched chain must reach `height`, or the block there would be missing again
+    if (tip.height !== height) throw error;
+    return blocks;
+  }
+}
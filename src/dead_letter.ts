@@ -0,0 +1,130 @@
+import { promises as fs } from 'node:fs';
+import type { BlockHeight, StreamerMessage, IndexerExecutionOutcomeWithReceipt, IndexerTransactionWithOutcome } from './types.js';
+import {
+  runIndexer,
+  type CompleteTransaction,
+  type DeadLetterEntry,
+  type DeadLetterSink,
+  type IncompleteTransaction,
+  type Indexer,
+  type IndexerHookName,
+  type IndexerOptions,
+  type MessageStreamer,
+  type TransactionReceipt,
+  type TransactionTimeoutReason,
+} from './indexer.js';
+
+// Keeps dead-lettered hook calls in memory, e.g. for tests or to replay before exiting
+export class MemoryDeadLetterSink implements DeadLetterSink {
+  public entries: DeadLetterEntry[] = [];
+
+  async record(entry: DeadLetterEntry): Promise<void> {
+    this.entries.push(entry);
+  }
+}
+
+// Appends one JSON line per dead-lettered hook call
+export class FileDeadLetterSink implements DeadLetterSink {
+  private file: string;
+  constructor(file: string) {
+    this.file = file;
+  }
+
+  async record(entry: DeadLetterEntry): Promise<void> {
+    await fs.appendFile(this.file, JSON.stringify(entry) + '\n', 'utf8');
+  }
+
+  async load(): Promise<DeadLetterEntry[]> {
+    let text: string;
+    try {
+      text = await fs.readFile(this.file, 'utf8');
+    } catch {
+      return [];
+    }
+    return text
+      .split('\n')
+      .filter((line) => line.trim().length > 0)
+      .map((line) => JSON.parse(line) as DeadLetterEntry);
+  }
+
+  async clear(): Promise<void> {
+    await fs.rm(this.file, { force: true });
+  }
+}
+
+export function deadLetteredHeights(entries: DeadLetterEntry[]): BlockHeight[] {
+  return Array.from(new Set(entries.map((e) => e.block_height))).sort((a, b) => a - b);
+}
+
+const TRANSACTION_HOOKS = new Set<IndexerHookName>(['onTransaction', 'onReceipt', 'onTransactionTimeout']);
+
+// Runs each dead-lettered block through the indexer again, as a one-block Range.
+// All hooks of the block are delivered again, not only the failed ones, so indexers
+// should be idempotent per block. Heights whose failures are all raw hooks (processBlock,
+// processReceipt, ...) are replayed without prefetch and postfetch. finalize() runs once at the end.
+// Returns the entries that failed again.
+export async function replayDeadLetters<I extends Indexer, S extends MessageStreamer>(
+  indexer: I,
+  streamer: S,
+  entries: DeadLetterEntry[],
+  // stop_on_error and ctrl_c_handler are always off for replays
+  options: Omit<IndexerOptions, 'range' | 'dead_letter' | 'stop_on_error' | 'ctrl_c_handler'>,
+): Promise<DeadLetterEntry[]> {
+  const failed = new MemoryDeadLetterSink();
+  const inner = new WithoutFinalize(indexer);
+  for (const height of deadLetteredHeights(entries)) {
+    // Raw hooks need only the block itself. Transaction hooks need the transaction rebuilt,
+    // so only those heights pay for the caller's prefetch and postfetch
+    const needsTransactions = entries.some((e) => e.block_height === height && TRANSACTION_HOOKS.has(e.hook));
+    const preprocess = options.preprocess_transactions;
+    await runIndexer(inner, streamer, {
+      ...options,
+      stop_on_error: false,
+      ctrl_c_handler: false,
+      range: { kind: 'Range', start_inclusive: height, end_exclusive: height + 1 },
+      dead_letter: failed,
+      preprocess_transactions:
+        preprocess && !needsTransactions ? { ...preprocess, prefetch_blocks: 0, postfetch_blocks: 0 } : preprocess,
+    });
+    if (options.signal?.aborted) break;
+  }
+  if (indexer.finalize) await indexer.finalize();
+  return failed.entries;
+}
+
+class WithoutFinalize implements Indexer {
+  private indexer: Indexer;
+  constructor(indexer: Indexer) {
+    this.indexer = indexer;
+  }
+
+  async processBlock(block: StreamerMessage) {
+    if (this.indexer.processBlock) await this.indexer.processBlock(block);
+  }
+  async processTransaction(tx: IndexerTransactionWithOutcome, block: StreamerMessage) {
+    if (this.indexer.processTransaction) await this.indexer.processTransaction(tx, block);
+  }
+  async processReceipt(r: IndexerExecutionOutcomeWithReceipt, block: StreamerMessage) {
+    if (this.indexer.processReceipt) await this.indexer.processReceipt(r, block);
+  }
+  async onTransaction(tx: CompleteTransaction, block: StreamerMessage) {
+    if (this.indexer.onTransaction) await this.indexer.onTransaction(tx, block);
+  }
+  async onReceipt(r: TransactionReceipt, itx: IncompleteTransaction, block: StreamerMessage) {
+    if (this.indexer.onReceipt) await this.indexer.onReceipt(r, itx, block);
+  }
+  async onTransactionTimeout(
+    itx: IncompleteTransaction,
+    missing: string[],
+    block: StreamerMessage,
+    reason: TransactionTimeoutReason,
+  ) {
+    if (this.indexer.onTransactionTimeout) await this.indexer.onTransactionTimeout(itx, missing, block, reason);
+  }
+  async processBlockEnd(block: StreamerMessage) {
+    if (this.indexer.processBlockEnd) await this.indexer.processBlockEnd(block);
+  }
+  async onRevert(height: BlockHeight, replacement?: StreamerMessage) {
+    if (this.indexer.onRevert) await this.indexer.onRevert(height, replacement);
+  }
+}
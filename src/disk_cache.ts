@@ -0,0 +1,144 @@
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import type { BlockHeight, StreamerMessage } from './types.js';
+import type { Fetcher, FetcherConfig } from './neardata.js';
+import { BlockArchive } from './archive.js';
+
+// Read-through cache of fetched blocks on disk, laid out like a BlockArchive per
+// <dir>/<chain_id>/final. Only Final blocks are cached; nulls are never cached because
+// near the head they may mean "not produced yet". Least recently used files are evicted
+// once the cache grows past max_bytes; file mtimes carry the recency across runs.
+
+export interface DiskCacheOptions {
+  dir: string;
+  max_bytes?: number; // default 1 GiB
+  gzip?: boolean; // default true
+}
+
+interface CacheEntry {
+  size: number;
+}
+
+export function withDiskCache(fetcher: Fetcher, options: DiskCacheOptions): Fetcher {
+  const maxBytes = options.max_bytes ?? 1024 ** 3;
+  const archives = new Map<string, BlockArchive>();
+  // Insertion order is recency order: the first entry is evicted first
+  const lru = new Map<string, CacheEntry>();
+  const inflight = new Map<string, Promise<StreamerMessage | null>>();
+  let totalBytes = 0;
+  let indexed: Promise<void> | undefined;
+
+  const archiveFor = (cfg: FetcherConfig) => {
+    let archive = archives.get(cfg.chain_id);
+    if (!archive) {
+      archive = new BlockArchive(path.join(options.dir, cfg.chain_id, 'final'), {
+        gzip: options.gzip ?? true,
+      });
+      archives.set(cfg.chain_id, archive);
+    }
+    return archive;
+  };
+
+  const touch = (file: string, entry: CacheEntry) => {
+    lru.delete(file);
+    lru.set(file, entry);
+  };
+
+  // Drops the accounting of a file that is gone or about to be removed
+  const untrack = (file: string) => {
+    const entry = lru.get(file);
+    if (entry) {
+      lru.delete(file);
+      totalBytes -= entry.size;
+    }
+  };
+
+  const forget = async (file: string) => {
+    untrack(file);
+    await fs.rm(file, { force: true });
+  };
+
+  // Rebuild the LRU order from what earlier runs left on disk
+  const index = async () => {
+    const files: { file: string; size: number; mtimeMs: number }[] = [];
+    const walk = async (dir: string) => {
+      let entries;
+      try {
+        entries = await fs.readdir(dir, { withFileTypes: true });
+      } catch {
+        return;
+      }
+      for (const e of entries) {
+        const full = path.join(dir, e.name);
+        if (e.isDirectory()) await walk(full);
+        else if (/\.json(\.gz)?$/.test(e.name)) {
+          const st = await fs.stat(full);
+          files.push({ file: full, size: st.size, mtimeMs: st.mtimeMs });
+        }
+      }
+    };
+    await walk(options.dir);
+    files.sort((a, b) => a.mtimeMs - b.mtimeMs);
+    for (const f of files) {
+      lru.set(f.file, { size: f.size });
+      totalBytes += f.size;
+    }
+  };
+
+  const evict = async () => {
+    for (const file of lru.keys()) {
+      if (totalBytes <= maxBytes) break;
+      await forget(file);
+    }
+  };
+
+  const load = async (cfg: FetcherConfig, height: BlockHeight): Promise<StreamerMessage | null> => {
+    await (indexed ??= index());
+    const archive = archiveFor(cfg);
+    const file = archive.path(height);
+
+    const entry = lru.get(file);
+    if (entry) {
+      try {
+        const cached = await archive.read(height);
+        if (cached) {
+          touch(file, entry);
+          const now = new Date();
+          await fs.utimes(file, now, now).catch(() => {});
+          return cached;
+        }
+      } catch {
+        // Corrupt or truncated: refetch below
+      }
+      await forget(file);
+    }
+
+    const msg = await fetcher(cfg, height);
+    if (!msg) return msg;
+    // The block is already fetched; failing to cache it must not fail the fetch
+    try {
+      await archive.write(height, msg);
+      // write() removes the copy in the other encoding, e.g. after toggling gzip
+      untrack(archive.path(height, !archive.options.gzip));
+      const { size } = await fs.stat(file);
+      untrack(file);
+      totalBytes += size;
+      touch(file, { size });
+      await evict();
+    } catch {
+      await forget(file).catch(() => {});
+    }
+    return msg;
+  };
+
+  return async (cfg: FetcherConfig, height: BlockHeight) => {
+    if ((cfg.finality ?? 'Final') !== 'Final') return fetcher(cfg, height);
+    const key = `${cfg.chain_id}:${height}`;
+    let p = inflight.get(key);
+    if (!p) {
+      p = load(cfg, height).finally(() => inflight.delete(key));
+      inflight.set(key, p);
+    }
+    return p;
+  };
+}
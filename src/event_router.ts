@@ -0,0 +1,234 @@
+import type { AccountId, IndexerExecutionOutcomeWithReceipt, StreamerMessage } from './types.js';
+import type { Indexer } from './indexer.js';
+import {
+  isReceiptSuccessful,
+  matchesAccount,
+  eventPayloadIssues,
+  EventValidationError,
+  type AccountPattern,
+  type EventLogData,
+  type EventValidationMode,
+  type FtBurnLog,
+  type FtMetadataUpdateLog,
+  type FtMintLog,
+  type FtTransferLog,
+  type NftBurnLog,
+  type NftContractMetadataUpdateLog,
+  type MtBurnLog,
+  type MtMintLog,
+  type MtTransferLog,
+  type NftMetadataUpdateLog,
+  type NftMintLog,
+  type NftTransferLog,
+} from './near_utils.js';
+import type { LegacyLogRegistry } from './legacy_logs.js';
+
+// Indexer that routes NEP-297 events (EVENT_JSON: logs) to handlers registered by contract,
+// standard, event name and version range. Other logs are ignored without noise.
+
+// Payload types of the events known to the router, by standard and event name
+export interface KnownEvents {
+  nep141: {
+    ft_mint: FtMintLog;
+    ft_burn: FtBurnLog;
+    ft_transfer: FtTransferLog;
+    ft_metadata_update: FtMetadataUpdateLog;
+  };
+  nep171: {
+    nft_mint: NftMintLog;
+    nft_burn: NftBurnLog;
+    nft_transfer: NftTransferLog;
+    contract_metadata_update: NftContractMetadataUpdateLog;
+    nft_metadata_update: NftMetadataUpdateLog;
+  };
+  nep245: {
+    mt_mint: MtMintLog;
+    mt_burn: MtBurnLog;
+    mt_transfer: MtTransferLog;
+  };
+}
+
+export interface EventContext {
+  standard: string;
+  version: string;
+  event: string;
+  contract_id: AccountId; // the account that emitted the log
+  log_index: number; // index within the receipt's logs
+  legacy_parser?: string; // set when the event was normalized from a legacy log by this parser
+  receipt: IndexerExecutionOutcomeWithReceipt;
+  block: StreamerMessage;
+}
+
+export type EventHandler<T> = (data: T, ctx: EventContext) => Promise<void> | void;
+
+export interface EventRoute<T = unknown> {
+  contract?: AccountPattern | AccountPattern[]; // default any contract
+  standard?: string; // default any standard
+  event?: string | string[]; // default any event
+  version?: string; // see satisfiesVersion; default any
+  // Extra check of the payload; events failing it go to onInvalidEvent
+  validate?: (data: unknown, ctx: EventContext) => data is T;
+}
+
+export interface EventRouterOptions {
+  // Also route events from receipts that failed (their state changes were reverted); default false
+  include_failed?: boolean;
+  // Payloads of known events failing eventPayloadIssues: 'strict' (default) drops them,
+  // 'lenient' still routes them. Both report them to onInvalidEvent as EventValidationError
+  validation?: EventValidationMode;
+  // Logs that are not NEP-297 are normalized by this registry and routed like events; ignored without it
+  legacy_logs?: LegacyLogRegistry;
+  // EVENT_JSON: logs that are not valid JSON or fail a route's validation. Ignored by default
+  onInvalidEvent?(log: string, error: unknown, ctx: Partial<EventContext>): void;
+}
+
+interface Registered {
+  route: EventRoute<any>;
+  handler: EventHandler<any>;
+}
+
+export class EventRouterIndexer implements Indexer {
+  private routes: Registered[] = [];
+  private options: EventRouterOptions;
+  constructor(options: EventRouterOptions = {}) {
+    this.options = options;
+  }
+
+  // Handlers run in registration order; one log can match several routes
+  on<S extends keyof KnownEvents & string, E extends keyof KnownEvents[S] & string>(
+    route: EventRoute<KnownEvents[S][E]> & { standard: S; event: E },
+    handler: EventHandler<KnownEvents[S][E]>,
+  ): this;
+  on<T = unknown>(route: EventRoute<T>, handler: EventHandler<T>): this;
+  on(route: EventRoute<any>, handler: EventHandler<any>): this {
+    this.routes.push({ route, handler });
+    return this;
+  }
+
+  async processReceipt(receipt: IndexerExecutionOutcomeWithReceipt, block: StreamerMessage) {
+    if (!this.options.include_failed && isReceiptSuccessful(receipt) === false) return;
+    const contract_id = receipt.receipt.receiver_id;
+    const logs = receipt.execution_outcome.outcome.logs ?? [];
+    for (const [log_index, log] of logs.entries()) {
+      let evt = parseEventLog(log);
+      let legacy_parser: string | undefined;
+      if (evt === undefined) {
+        const legacy = this.options.legacy_logs?.parse(log, contract_id);
+        if (!legacy) continue; // not an event
+        evt = legacy.event;
+        legacy_parser = legacy.parser;
+      }
+      if (evt instanceof Error) {
+        this.options.onInvalidEvent?.(log, evt, { contract_id, log_index, receipt, block });
+        continue;
+      }
+      const ctx: EventContext = {
+        standard: evt.standard,
+        version: evt.version,
+        event: evt.event,
+        contract_id,
+        log_index,
+        legacy_parser,
+        receipt,
+        block,
+      };
+      const matching = this.routes.filter(({ route }) => routeMatches(route, ctx));
+      if (!matching.length) continue;
+      const issues = eventPayloadIssues(evt);
+      if (issues.length) {
+        this.options.onInvalidEvent?.(log, new EventValidationError(evt, issues), ctx);
+        if ((this.options.validation ?? 'strict') === 'strict') continue;
+      }
+      for (const { route, handler } of matching) {
+        if (route.validate && !route.validate(evt.data, ctx)) {
+          this.options.onInvalidEvent?.(log, new Error(`Invalid ${evt.standard} ${evt.event} payload`), ctx);
+          continue;
+        }
+        await handler(evt.data, ctx);
+      }
+    }
+  }
+}
+
+// undefined: not an event log; Error: EVENT_JSON: prefix with a malformed body
+function parseEventLog(log: string): EventLogData<unknown> | Error | undefined {
+  const prefix = 'EVENT_JSON:';
+  if (!log.startsWith(prefix)) return undefined;
+  let evt: any;
+  try {
+    evt = JSON.parse(log.slice(prefix.length));
+  } catch (e) {
+    return e instanceof Error ? e : new Error(String(e));
+  }
+  if (!evt || typeof evt.standard !== 'string' || typeof evt.event !== 'string' || typeof evt.version !== 'string') {
+    return new Error('Missing standard, version or event');
+  }
+  return evt;
+}
+
+function routeMatches(route: EventRoute<unknown>, ctx: EventContext): boolean {
+  if (route.standard !== undefined && route.standard !== ctx.standard) return false;
+  if (route.event !== undefined) {
+    const events = Array.isArray(route.event) ? route.event : [route.event];
+    if (!events.includes(ctx.event)) return false;
+  }
+  if (route.contract !== undefined && !matchesAccount(route.contract, ctx.contract_id)) return false;
+  return route.version === undefined || satisfiesVersion(ctx.version, route.version);
+}
+
+// A small subset of semver ranges: '*', '1', '1.x', '1.2.x', '^1.2.0', '~1.2.0', exact '1.2.0',
+// and space-separated comparators such as '>=1.0.0 <2.0.0'. Missing components count as 0.
+export function satisfiesVersion(version: string, range: string): boolean {
+  const v = parseVersion(version);
+  if (!v) return false;
+  return range
+    .trim()
+    .split(/\s+/)
+    .every((part) => satisfiesComparator(v, part));
+}
+
+function parseVersion(s: string): number[] | undefined {
+  const parts = s.trim().split('.');
+  if (parts.length > 3 || parts.some((p) => !/^\d+$/.test(p))) return undefined;
+  const nums = parts.map(Number);
+  while (nums.length < 3) nums.push(0);
+  return nums;
+}
+
+function compareVersions(a: number[], b: number[]): number {
+  for (let i = 0; i < 3; i++) if (a[i] !== b[i]) return a[i] - b[i];
+  return 0;
+}
+
+function satisfiesComparator(v: number[], part: string): boolean {
+  if (part === '*' || part === 'x' || part === '') return true;
+  const op = /^(>=|<=|>|<|=|\^|~)?(.*)$/.exec(part)!;
+  const operator = op[1] ?? '';
+  const body = op[2];
+  // Wildcards: '1', '1.x', '1.2.*'
+  const pieces = body.split('.');
+  const wildcardAt = pieces.findIndex((p) => p === 'x' || p === '*');
+  if (!operator && (wildcardAt >= 0 || pieces.length < 3)) {
+    const fixed = (wildcardAt >= 0 ? pieces.slice(0, wildcardAt) : pieces).map(Number);
+    return fixed.every((n, i) => v[i] === n);
+  }
+  const target = parseVersion(body);
+  if (!target) return false;
+  const cmp = compareVersions(v, target);
+  switch (operator) {
+    case '>=':
+      return cmp >= 0;
+    case '<=':
+      return cmp <= 0;
+    case '>':
+      return cmp > 0;
+    case '<':
+      return cmp < 0;
+    case '^':
+      return cmp >= 0 && (target[0] > 0 ? v[0] === target[0] : v[0] === 0 && v[1] === target[1]);
+    case '~':
+      return cmp >= 0 && v[0] === target[0] && v[1] === target[1];
+    default:
+      return cmp === 0;
+  }
+}
@@ -0,0 +1,210 @@
+import type { BlockHeight, StreamerMessage } from './types.js';
+import {
+  fetchLastBlockHeightFrom,
+  makeNeardataHttpFetcher,
+  type Fetcher,
+  type FetcherConfig,
+  type HttpFetcherOptions,
+} from './neardata.js';
+import { mapNeardataBlock } from './neardata_mapper.js';
+import { getNetwork, type ChainId } from './networks.js';
+
+// Fetcher over several neardata-compatible servers (e.g. public neardata plus a mirror).
+// Blocks come from the healthiest endpoint with the best priority. An endpoint that errors
+// or times out is marked unhealthy and the next one is tried; unhealthy endpoints are
+// probed via /v0/last_block in the background and taken back once they answer again.
+
+export interface FailoverEndpoint {
+  url: string;
+  priority?: number; // lower is preferred; default 0, ties keep list order
+  headers?: Record<string, string>;
+}
+
+export interface FailoverFetcherOptions extends Omit<HttpFetcherOptions, 'baseUrl' | 'headers'> {
+  timeout_ms?: number; // per request, a slower answer counts as a failure; default 10_000
+  failure_threshold?: number; // consecutive failures before an endpoint is unhealthy; default 1
+  health_check_interval_ms?: number; // between probes of an unhealthy endpoint; default 30_000
+  // Probes also fail when the endpoint's head is this many blocks behind the best known head
+  max_lag_blocks?: number; // default 50
+  onServed?(height: BlockHeight, endpoint: string): void;
+  onHealthChange?(endpoint: string, healthy: boolean, error?: unknown): void;
+}
+
+export interface EndpointStatus {
+  url: string;
+  priority: number;
+  healthy: boolean;
+  consecutive_failures: number;
+  head?: BlockHeight; // last head seen by a probe or a served block
+  last_error?: unknown;
+}
+
+export type FailoverFetcher = Fetcher & {
+  status(): EndpointStatus[];
+  // Probes every endpoint now, regardless of the interval
+  checkHealth(cfg: FetcherConfig): Promise<void>;
+};
+
+export class AllEndpointsFailedError extends Error {
+  public height: BlockHeight;
+  public errors: { endpoint: string; error: unknown }[];
+  constructor(height: BlockHeight, errors: { endpoint: string; error: unknown }[]) {
+    super(
+      `Fetching block ${height} failed on all endpoints: ${errors
+        .map((e) => `${e.endpoint}: ${e.error instanceof Error ? e.error.message : String(e.error)}`)
+        .join('; ')}`,
+    );
+    this.name = 'AllEndpointsFailedError';
+    this.height = height;
+    this.errors = errors;
+  }
+}
+
+interface EndpointState extends EndpointStatus {
+  headers?: Record<string, string>;
+  fetcher: Fetcher;
+  last_check: number;
+  probing?: Promise<void>;
+}
+
+export function makeFailoverFetcher(
+  endpoints: FailoverEndpoint[],
+  options: FailoverFetcherOptions = {},
+): FailoverFetcher {
+  if (!endpoints.length) throw new Error('makeFailoverFetcher needs at least one endpoint');
+  const timeoutMs = options.timeout_ms ?? 10_000;
+  const threshold = Math.max(1, options.failure_threshold ?? 1);
+  const intervalMs = options.health_check_interval_ms ?? 30_000;
+  const maxLag = options.max_lag_blocks ?? 50;
+
+  const states: EndpointState[] = endpoints
+    .map((e, i) => ({ e, i }))
+    .sort((a, b) => (a.e.priority ?? 0) - (b.e.priority ?? 0) || a.i - b.i)
+    .map(({ e }) => ({
+      url: e.url,
+      priority: e.priority ?? 0,
+      headers: e.headers,
+      healthy: true,
+      consecutive_failures: 0,
+      last_check: 0,
+      fetcher: makeNeardataHttpFetcher({
+        ...options,
+        baseUrl: e.url,
+        headers: e.headers,
+        map: options.map ?? mapNeardataBlock,
+        timeout_ms: timeoutMs,
+      }),
+    }));
+
+  const setHealthy = (s: EndpointState, healthy: boolean, error?: unknown) => {
+    if (s.healthy === healthy) return;
+    s.healthy = healthy;
+    options.onHealthChange?.(s.url, healthy, error);
+  };
+
+  const succeeded = (s: EndpointState) => {
+    s.consecutive_failures = 0;
+    s.last_error = undefined;
+    setHealthy(s, true);
+  };
+
+  const failed = (s: EndpointState, error: unknown) => {
+    s.consecutive_failures++;
+    s.last_error = error;
+    if (s.consecutive_failures >= threshold) {
+      s.last_check = Date.now();
+      setHealthy(s, false, error);
+    }
+  };
+
+  const lagError = (s: EndpointState) => {
+    const best = Math.max(...states.map((o) => o.head ?? -1));
+    if (s.head === undefined || best - s.head <= maxLag) return undefined;
+    return new Error(`${s.url} is ${best - s.head} blocks behind`);
+  };
+
+  const probe = (s: EndpointState, cfg: FetcherConfig) =>
+    (s.probing ??= (async () => {
+      s.last_check = Date.now();
+      try {
+        const headers = { ...(s.headers ?? {}), ...(cfg.user_agent ? { 'user-agent': cfg.user_agent } : {}) };
+        s.head = await fetchLastBlockHeightFrom(s.url, cfg.finality ?? 'Final', headers, timeoutMs);
+        const lag = lagError(s);
+        if (lag) throw lag;
+        succeeded(s);
+      } catch (e) {
+        failed(s, e);
+      } finally {
+        s.probing = undefined;
+      }
+    })());
+
+  const fetcher = async (cfg: FetcherConfig, height: BlockHeight): Promise<StreamerMessage | null> => {
+    // Recovered endpoints with a better priority are taken back on a later call
+    const now = Date.now();
+    for (const s of states) {
+      // Not awaited; a throwing onHealthChange must not become an unhandled rejection
+      if (!s.healthy && now - s.last_check >= intervalMs) probe(s, cfg).catch(() => {});
+    }
+    // Unhealthy endpoints are still the last resort before giving up
+    const order = [...states.filter((s) => s.healthy), ...states.filter((s) => !s.healthy)];
+
+    const errors: { endpoint: string; error: unknown }[] = [];
+    let fallback: EndpointState | undefined;
+    for (const s of order) {
+      try {
+        const msg = await s.fetcher(cfg, height);
+        succeeded(s);
+        if (msg) s.head = Math.max(s.head ?? -1, height);
+        // Served heights only give a lower bound of the head, so ask the endpoint before taking a
+        // null above it for a height it has not synced yet (rather than one skipped by the chain)
+        if (msg === null && (s.head === undefined || s.head < height)) await probe(s, cfg).catch(() => {});
+        if (msg === null && s.head !== undefined && s.head < height) {
+          fallback ??= s;
+          continue;
+        }
+        options.onServed?.(height, s.url);
+        return msg;
+      } catch (e) {
+        failed(s, e);
+        errors.push({ endpoint: s.url, error: e });
+      }
+    }
+    if (fallback) {
+      options.onServed?.(height, fallback.url);
+      return null;
+    }
+    throw new AllEndpointsFailedError(height, errors);
+  };
+
+  return Object.assign(fetcher, {
+    status: (): EndpointStatus[] =>
+      states.map(({ url, priority, healthy, consecutive_failures, head, last_error }) => ({
+        url,
+        priority,
+        healthy,
+        consecutive_failures,
+        head,
+        last_error,
+      })),
+    checkHealth: async (cfg: FetcherConfig) => {
+      await Promise.all(states.map((s) => probe(s, cfg)));
+      // Probed in parallel, so an endpoint may have been compared before a better head was known
+      for (const s of states) {
+        const lag = lagError(s);
+        if (lag && s.healthy) failed(s, lag);
+      }
+    },
+  });
+}
+
+// base_url of a registered network first, then its mirrors in order
+export function makeFailoverFetcherFromChain(chain: ChainId, options: FailoverFetcherOptions = {}): FailoverFetcher {
+  const network = getNetwork(chain);
+  const urls = [...(network.base_url ? [network.base_url] : []), ...(network.mirrors ?? [])];
+  if (!urls.length) throw new Error(`Network '${chain}' has no neardata servers`);
+  return makeFailoverFetcher(
+    urls.map((url, priority) => ({ url, priority })),
+    options,
+  );
+}
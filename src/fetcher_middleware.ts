@@ -0,0 +1,179 @@
+import type { BlockHeight, StreamerMessage } from './types.js';
+import { NeardataHttpError, type Fetcher, type FetcherConfig } from './neardata.js';
+import { sleep } from './async_utils.js';
+
+// Rate limiting, retries and a circuit breaker around any Fetcher.
+// One withFetchPolicy() wrapper shares its token bucket and breaker across all calls,
+// so wrap once and reuse it for every streamer talking to the same endpoint.
+
+export interface RateLimitOptions {
+  requests_per_second: number;
+  burst?: number; // bucket size; default 1
+}
+
+export interface RetryOptions {
+  max_retries: number; // default 5
+  base_delay_ms?: number; // default 500
+  max_delay_ms?: number; // default 30_000; also caps Retry-After
+}
+
+export interface CircuitBreakerOptions {
+  failure_threshold: number; // consecutive retryable failures that open the circuit; default 5
+  cooldown_ms?: number; // how long it stays open before a trial request; default 30_000
+}
+
+export interface FetchPolicyOptions {
+  rate_limit?: RateLimitOptions;
+  retry?: RetryOptions | false; // default { max_retries: 5 }
+  circuit_breaker?: CircuitBreakerOptions;
+}
+
+export type FetchErrorClass = 'retryable' | 'fatal';
+
+// HTTP errors are classified by status: 408, 429 and 5xx are retryable, other 4xx are not.
+// Anything else (network failures, timeouts, truncated bodies) is retryable.
+export function classifyFetchError(e: unknown): FetchErrorClass {
+  if (e instanceof CircuitOpenError) return 'fatal';
+  if (e instanceof NeardataHttpError) {
+    if (e.status === 408 || e.status === 429 || e.status >= 500) return 'retryable';
+    return 'fatal';
+  }
+  return 'retryable';
+}
+
+export class TokenBucket {
+  private capacity: number;
+  private refillPerMs: number;
+  private tokens: number;
+  private updatedAt = Date.now();
+  private pausedUntil = 0;
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(options: RateLimitOptions) {
+    this.capacity = Math.max(1, options.burst ?? 1);
+    this.refillPerMs = options.requests_per_second / 1000;
+    this.tokens = this.capacity;
+  }
+
+  // Stop handing out tokens for `ms`, e.g. after a Retry-After
+  pause(ms: number) {
+    this.pausedUntil = Math.max(this.pausedUntil, Date.now() + ms);
+  }
+
+  // Callers are served in FIFO order
+  take(): Promise<void> {
+    const next = this.queue.then(() => this.acquire());
+    this.queue = next;
+    return next;
+  }
+
+  private async acquire() {
+    while (true) {
+      const now = Date.now();
+      if (now < this.pausedUntil) {
+        await sleep(this.pausedUntil - now);
+        continue;
+      }
+      this.tokens = Math.min(this.capacity, this.tokens + (now - this.updatedAt) * this.refillPerMs);
+      this.updatedAt = now;
+      if (this.tokens >= 1) {
+        this.tokens -= 1;
+        return;
+      }
+      await sleep(Math.ceil((1 - this.tokens) / this.refillPerMs));
+    }
+  }
+}
+
+export class CircuitOpenError extends Error {
+  public retry_at: number; // epoch ms
+  constructor(retry_at: number) {
+    super(`Circuit open after repeated fetch failures; next attempt at ${new Date(retry_at).toISOString()}`);
+    this.name = 'CircuitOpenError';
+    this.retry_at = retry_at;
+  }
+}
+
+export type CircuitState = 'Closed' | 'Open' | 'HalfOpen';
+
+export class CircuitBreaker {
+  private threshold: number;
+  private cooldownMs: number;
+  private failures = 0;
+  private openedAt = 0;
+  private trialInFlight = false;
+  public state: CircuitState = 'Closed';
+
+  constructor(options: CircuitBreakerOptions) {
+    this.threshold = Math.max(1, options.failure_threshold);
+    this.cooldownMs = options.cooldown_ms ?? 30_000;
+  }
+
+  // Throws CircuitOpenError while open; after the cooldown lets one trial request through
+  check() {
+    if (this.state === 'Closed') return;
+    const retryAt = this.openedAt + this.cooldownMs;
+    if (this.state === 'Open' && Date.now() >= retryAt) {
+      this.state = 'HalfOpen';
+      this.trialInFlight = false;
+    }
+    if (this.state === 'HalfOpen' && !this.trialInFlight) {
+      this.trialInFlight = true;
+      return;
+    }
+    throw new CircuitOpenError(retryAt);
+  }
+
+  success() {
+    this.failures = 0;
+    this.state = 'Closed';
+    this.trialInFlight = false;
+  }
+
+  failure() {
+    this.failures++;
+    if (this.state === 'HalfOpen' || this.failures >= this.threshold) {
+      this.state = 'Open';
+      this.openedAt = Date.now();
+      this.trialInFlight = false;
+    }
+  }
+}
+
+export function withFetchPolicy(fetcher: Fetcher, options: FetchPolicyOptions = {}): Fetcher {
+  const bucket = options.rate_limit ? new TokenBucket(options.rate_limit) : undefined;
+  const breaker = options.circuit_breaker ? new CircuitBreaker(options.circuit_breaker) : undefined;
+  const retry = options.retry === false ? { max_retries: 0 } : options.retry ?? { max_retries: 5 };
+  const baseDelay = retry.base_delay_ms ?? 500;
+  const maxDelay = retry.max_delay_ms ?? 30_000;
+
+  return async (cfg: FetcherConfig, height: BlockHeight): Promise<StreamerMessage | null> => {
+    for (let attempt = 0; ; attempt++) {
+      breaker?.check();
+      if (bucket) await bucket.take();
+      try {
+        const msg = await fetcher(cfg, height);
+        breaker?.success();
+        return msg;
+      } catch (e) {
+        if (classifyFetchError(e) === 'fatal') {
+          // The endpoint answered, so it is healthy as far as the breaker is concerned
+          if (e instanceof NeardataHttpError) breaker?.success();
+          throw e;
+        }
+        breaker?.failure();
+        if (attempt >= retry.max_retries) throw e;
+        // Retry-After is honored up to max_delay_ms, so a server cannot stall the fetcher indefinitely
+        const retryAfter = e instanceof NeardataHttpError ? e.retry_after_ms : undefined;
+        if (retryAfter !== undefined) {
+          const delay = Math.min(retryAfter, maxDelay);
+          bucket?.pause(delay);
+          await sleep(delay);
+        } else {
+          // Exponential backoff with full jitter
+          await sleep(Math.random() * Math.min(maxDelay, baseDelay * 2 ** attempt));
+        }
+      }
+    }
+  };
+}
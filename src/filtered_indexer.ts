@@ -0,0 +1,172 @@
+import type {
+  CompleteTransaction,
+  IncompleteTransaction,
+  Indexer,
+  TransactionReceipt,
+  TransactionTimeoutReason,
+} from './indexer.js';
+import type {
+  BlockHeight,
+  IndexerExecutionOutcomeWithReceipt,
+  IndexerTransactionWithOutcome,
+  StreamerMessage,
+} from './types.js';
+import {
+  decodeReceiptActions,
+  decodeTransactionActions,
+  matchesAccount,
+  type AccountPattern,
+  type ActionKind,
+  type DecodedAction,
+} from './near_utils.js';
+
+// Criteria are combined with AND, the values within one criterion with OR. Unset criteria match anything
+export interface IndexerFilter {
+  // Matched against signer and receiver of a transaction, predecessor and receiver of a receipt,
+  // and sender and receiver of Delegate actions
+  accounts?: AccountPattern | AccountPattern[];
+  // Function call method names, including calls inside Delegate actions
+  methods?: string[];
+  // Action kinds, e.g. ['FunctionCall', 'Transfer'], including actions inside Delegate actions
+  actions?: ActionKind[];
+}
+
+export function matchesFilter(
+  item: IndexerTransactionWithOutcome | IndexerExecutionOutcomeWithReceipt,
+  filter: IndexerFilter,
+): boolean {
+  const isTx = 'transaction' in item;
+  const parties = isTx
+    ? [item.transaction.signer_id, item.transaction.receiver_id]
+    : [item.receipt.predecessor_id, item.receipt.receiver_id];
+  const partyMatch = filter.accounts === undefined || parties.some((a) => matchesAccount(filter.accounts!, a));
+  // Decoding actions parses call args, so skip it when the accounts alone decide
+  if (partyMatch && filter.methods === undefined && filter.actions === undefined) return true;
+  const actions = flattenActions(isTx ? decodeTransactionActions(item) : decodeReceiptActions(item));
+  if (!partyMatch) {
+    const delegated = actions.flatMap((a) => (a.kind === 'Delegate' ? [a.sender_id, a.receiver_id] : []));
+    if (!delegated.some((a) => matchesAccount(filter.accounts!, a))) return false;
+  }
+  if (filter.actions !== undefined && !actions.some((a) => filter.actions!.includes(a.kind))) return false;
+  if (filter.methods !== undefined) {
+    return actions.some((a) => a.kind === 'FunctionCall' && filter.methods!.includes(a.method_name));
+  }
+  return true;
+}
+
+function flattenActions(actions: DecodedAction[]): DecodedAction[] {
+  return actions.flatMap((a) => (a.kind === 'Delegate' ? [a, ...flattenActions(a.actions)] : [a]));
+}
+
+export interface FilteredIndexerOptions {
+  // Match results are kept for this many blocks after they were computed; default 1000.
+  // A result evicted while its transaction is still pending is just computed again
+  max_age_blocks?: number;
+}
+
+// Calls the wrapped indexer only for transactions and receipts matching the filter.
+// onTransaction and onTransactionTimeout fire when the transaction or any of its receipts
+// matches, and always get the whole transaction. onReceipt fires once the transaction, the
+// receipt or an earlier receipt of the same transaction matches; receipts delivered before
+// the first match are not replayed. Block-level hooks are passed through.
+// runIndexer reconstructs every transaction before the wrapper sees it, so filtering saves the
+// work of the wrapped hooks, not of the reconstruction: filtered-out transactions are pending in
+// runIndexer like any other until they complete. Set preprocess_transactions.max_pending_blocks
+// to bound that state; max_age_blocks only bounds the wrapper's own cache.
+export class FilteredIndexer<E = unknown> implements Indexer<E> {
+  private indexer: Indexer<E>;
+  private filter: IndexerFilter;
+  private maxAgeBlocks: number;
+  // Matching results per transaction or receipt with the height they were computed at, so each
+  // item is decoded once across hooks. Inserted in stream order, so the oldest come first
+  private matches = new Map<string, { match: boolean; height: BlockHeight }>();
+
+  constructor(indexer: Indexer<E>, filter: IndexerFilter, options: FilteredIndexerOptions = {}) {
+    this.indexer = indexer;
+    this.filter = filter;
+    this.maxAgeBlocks = options.max_age_blocks ?? 1000;
+  }
+
+  async processBlock(block: StreamerMessage) {
+    if (this.indexer.processBlock) await this.indexer.processBlock(block);
+  }
+  async processTransaction(tx: IndexerTransactionWithOutcome, block: StreamerMessage) {
+    if (this.indexer.processTransaction && this.matchesTx(tx, block)) await this.indexer.processTransaction(tx, block);
+  }
+  async processReceipt(r: IndexerExecutionOutcomeWithReceipt, block: StreamerMessage) {
+    if (this.indexer.processReceipt && this.matchesReceipt(r, block)) await this.indexer.processReceipt(r, block);
+  }
+  async onTransaction(tx: CompleteTransaction, block: StreamerMessage) {
+    if (!this.indexer.onTransaction) return;
+    const receipts = tx.receipts.map((r) => r.receipt);
+    const matched = this.matchesTx(tx.transaction, block) || receipts.some((r) => this.matchesReceipt(r, block));
+    this.forget(tx.transaction, receipts);
+    if (matched) await this.indexer.onTransaction(tx, block);
+  }
+  async onReceipt(r: TransactionReceipt, itx: IncompleteTransaction, block: StreamerMessage) {
+    if (!this.indexer.onReceipt) return;
+    // itx.receipts holds the receipts received so far, not yet this one
+    const matched =
+      this.matchesReceipt(r.receipt, block) ||
+      this.matchesTx(itx.transaction, block) ||
+      Array.from(itx.receipts.values()).some((prev) => prev !== null && this.matchesReceipt(prev.receipt, block));
+    if (matched) await this.indexer.onReceipt(r, itx, block);
+  }
+  async onTransactionTimeout(
+    itx: IncompleteTransaction,
+    missing: string[],
+    block: StreamerMessage,
+    reason: TransactionTimeoutReason,
+  ) {
+    const receipts = Array.from(itx.receipts.values())
+      .filter((r): r is TransactionReceipt => r !== null)
+      .map((r) => r.receipt);
+    const matched = this.matchesTx(itx.transaction, block) || receipts.some((r) => this.matchesReceipt(r, block));
+    this.forget(itx.transaction, receipts);
+    if (this.indexer.onTransactionTimeout && matched) {
+      await this.indexer.onTransactionTimeout(itx, missing, block, reason);
+    }
+  }
+  async processBlockEnd(block: StreamerMessage) {
+    if (this.indexer.processBlockEnd) await this.indexer.processBlockEnd(block);
+    // Results of items that never become part of a tracked transaction
+    const oldest = block.block.header.height - this.maxAgeBlocks;
+    for (const [key, { height }] of this.matches) {
+      if (height >= oldest) break;
+      this.matches.delete(key);
+    }
+  }
+  async onRevert(height: BlockHeight, replacement?: StreamerMessage) {
+    if (this.indexer.onRevert) await this.indexer.onRevert(height, replacement);
+  }
+  async finalize(pending?: IncompleteTransaction[]) {
+    this.matches.clear();
+    if (this.indexer.finalize) await this.indexer.finalize(pending);
+  }
+
+  private matchesTx(tx: IndexerTransactionWithOutcome, block: StreamerMessage): boolean {
+    return this.cached(`tx:${tx.transaction.hash}`, tx, block);
+  }
+
+  private matchesReceipt(r: IndexerExecutionOutcomeWithReceipt, block: StreamerMessage): boolean {
+    return this.cached(`r:${r.receipt.receipt_id}`, r, block);
+  }
+
+  private cached(
+    key: string,
+    item: IndexerTransactionWithOutcome | IndexerExecutionOutcomeWithReceipt,
+    block: StreamerMessage,
+  ): boolean {
+    let entry = this.matches.get(key);
+    if (entry === undefined) {
+      entry = { match: matchesFilter(item, this.filter), height: block.block.header.height };
+      this.matches.set(key, entry);
+    }
+    return entry.match;
+  }
+
+  private forget(tx: IndexerTransactionWithOutcome, receipts: IndexerExecutionOutcomeWithReceipt[]) {
+    this.matches.delete(`tx:${tx.transaction.hash}`);
+    for (const r of receipts) this.matches.delete(`r:${r.receipt.receipt_id}`);
+  }
+}
@@ -4,3 +4,17 @@ export * from './indexer.ts';
 export * from './message_provider.ts';
 export * from './multiindexer.ts';
 export * from './neardata.ts';
+export * from './neardata_mapper.ts';
+export * from './dead_letter.ts';
+export * from './archive.ts';
+export * from './disk_cache.ts';
+export * from './fetcher_middleware.ts';
+export * from './failover.ts';
+export * from './near_rpc.ts';
+export * from './lake.ts';
+export * from './networks.ts';
+export * from './timestamps.ts';
+export * from './continuity.ts';
+export * from './event_router.ts';
+export * from './legacy_logs.ts';
+export * from './filtered_indexer.ts';
@@ -1,4 +1,8 @@
+import os from 'node:os';
 import { MAINNET_GENESIS_BLOCK_HEIGHT, isReceiptSuccessful } from './near_utils.ts';
+import { sleep } from './async_utils.ts';
+import { getNetwork } from './networks.ts';
+import { toTimestampNanos, type BlockTimestampResolver, type TimeInput } from './timestamps.ts';
 import type {
   BlockHeight,
   BlockHeightDelta,
@@ -24,20 +28,39 @@ export interface Indexer<Err = unknown> {
     tx: IncompleteTransaction,
     block: StreamerMessage,
   ): Promise<void>;
+  // A tracked transaction was dropped before all of its receipts were seen
+  onTransactionTimeout?(
+    transaction: IncompleteTransaction,
+    missing_receipt_ids: string[],
+    block: StreamerMessage,
+    reason: TransactionTimeoutReason,
+  ): Promise<void>;
   processBlockEnd?(block: StreamerMessage): Promise<void>;
-  finalize?(): Promise<void>;
+  // Optimistic mode: the block delivered at `height` is not on the final chain. `replacement` is
+  // the final block at that height, undefined if the final chain has none there
+  onRevert?(height: BlockHeight, replacement?: StreamerMessage): Promise<void>;
+  // Receives the transactions still pending when the run ends (empty without preprocessing)
+  finalize?(pending_transactions?: IncompleteTransaction[]): Promise<void>;
 }
 
 export interface MessageStreamer<Err = unknown> {
+  // Registry name of the chain being streamed (see networks.ts); runIndexer takes its genesis height
+  readonly network?: string;
+  // Once `signal` is aborted the streamer should stop fetching and end the receiver
   stream(
     first_block_inclusive: BlockHeight,
     last_block_exclusive?: BlockHeight,
+    signal?: AbortSignal,
   ): Promise<{
     handle: Promise<void>;
     receiver: AsyncGenerator<StreamerMessage>;
   }>;
 }
 
+// MaxPendingBlocks: evicted by max_pending_blocks.
+// PostfetchCap: started in the range but still pending when adaptive postfetch hit postfetch_blocks.
+export type TransactionTimeoutReason = 'MaxPendingBlocks' | 'PostfetchCap';
+
 export interface CompleteTransaction {
   transaction: IndexerTransactionWithOutcome;
   receipts: TransactionReceipt[];
@@ -58,38 +81,180 @@ export interface TransactionReceipt {
 
 export type BlockRange =
   | { kind: 'Range'; start_inclusive: BlockHeight; end_exclusive?: BlockHeight }
-  | { kind: 'AutoContinue'; auto: AutoContinue };
+  | { kind: 'AutoContinue'; auto: AutoContinue }
+  // Blocks with timestamps in [start, end). The start is resolved to a height up front; so is the end
+  // if the chain has reached it, otherwise the run ends at the first block at or after `end`
+  | { kind: 'Timestamp'; start: TimeInput; end?: TimeInput; resolver: BlockTimestampResolver };
 
 export interface PreprocessTransactionsSettings {
   prefetch_blocks: number; // default 100
   postfetch_blocks: number; // default 100
+  // Drop transactions still pending this many blocks after they started and report them
+  // through onTransactionTimeout. Unbounded when unset.
+  max_pending_blocks?: BlockHeightDelta;
+  // Postfetch only while transactions that started in the range are pending, with
+  // postfetch_blocks as the hard cap. Those still pending at the cap go to onTransactionTimeout.
+  adaptive_postfetch?: boolean;
 }
 
 export interface IndexerOptions {
   stop_on_error: boolean;
   range: BlockRange;
   preprocess_transactions?: PreprocessTransactionsSettings;
-  genesis_block_height: BlockHeight;
+  // Lower bound for prefetching. Defaults to the genesis of the streamer's network, or mainnet's
+  // when the streamer doesn't say
+  genesis_block_height?: BlockHeight;
+  // Stop gracefully on SIGINT/SIGTERM; a second signal force-exits the process with 128 + signal number
   ctrl_c_handler: boolean;
+  // Told about each signal handled by ctrl_c_handler, e.g. for logging; `forced` on the exiting one
+  onShutdownSignal?(signal: NodeJS.Signals, forced: boolean): void;
+  // Stop gracefully when aborted: the current block finishes, then finalize() runs
+  signal?: AbortSignal;
+  // Retries a block whose hooks fail. The transaction state is rolled back and the block runs again
+  // from the start, so hooks that already succeeded for it run again, as after a restart from the
+  // checkpoint. The last attempt gives up on failing hooks (see dead_letter) and finishes the block.
+  // Also retries lookups of the final chain in optimistic mode
+  retry?: RetryPolicy;
+  // Receives hook calls that still fail after retries (only when stop_on_error is false)
+  dead_letter?: DeadLetterSink;
+  // Set when the streamer delivers optimistic blocks, to have them confirmed against the final chain
+  optimistic?: OptimisticOptions;
+}
+
+// Source of truth for optimistic mode. Delivered blocks are confirmed once the final head passes
+// them; a block whose hash differs from the final one is reported through Indexer.onRevert.
+// Transactions tracked by preprocess_transactions and checkpoints are not rolled back.
+export interface OptimisticOptions {
+  getFinalHead(): Promise<BlockHeight>;
+  // Final block at a height; null if the final chain has none there
+  getFinalBlock(height: BlockHeight): Promise<StreamerMessage | null>;
+  // Unconfirmed blocks kept; older ones are dropped without a check. Default 1000
+  max_tracked_blocks?: number;
+}
+
+export interface RetryPolicy {
+  attempts: number; // total attempts per block, including the first
+  backoff_ms: number;
+  backoff_multiplier?: number; // default 2
+  max_backoff_ms?: number; // default 60_000
+}
+
+export type IndexerHookName =
+  | 'processBlock'
+  | 'processTransaction'
+  | 'processReceipt'
+  | 'onTransaction'
+  | 'onReceipt'
+  | 'onTransactionTimeout'
+  | 'onRevert'
+  | 'processBlockEnd';
+
+export interface DeadLetterEntry {
+  block_height: BlockHeight;
+  hook: IndexerHookName;
+  tx_hash?: string;
+  receipt_id?: string;
+  error: string;
+  attempts: number;
+  failed_at: string; // ISO timestamp
+}
+
+export interface DeadLetterSink {
+  record(entry: DeadLetterEntry, error: unknown): Promise<void>;
+}
+
+// Raised when an indexer hook still fails on the last attempt at its block
+export class IndexerHookError extends Error {
+  public hook: IndexerHookName;
+  public block_height: BlockHeight;
+  public tx_hash?: string;
+  public receipt_id?: string;
+  public attempts: number;
+  constructor(
+    hook: IndexerHookName,
+    context: HookContext,
+    attempts: number,
+    cause: unknown,
+  ) {
+    super(
+      `${hook} failed at block ${context.block_height} after ${attempts} attempt(s): ${errorMessage(cause)}`,
+      { cause },
+    );
+    this.name = 'IndexerHookError';
+    this.hook = hook;
+    this.block_height = context.block_height;
+    this.tx_hash = context.tx_hash;
+    this.receipt_id = context.receipt_id;
+    this.attempts = attempts;
+  }
+
+  toDeadLetterEntry(): DeadLetterEntry {
+    return {
+      block_height: this.block_height,
+      hook: this.hook,
+      tx_hash: this.tx_hash,
+      receipt_id: this.receipt_id,
+      error: errorMessage(this.cause),
+      attempts: this.attempts,
+      failed_at: new Date().toISOString(),
+    };
+  }
+}
+
+interface HookContext {
+  block_height: BlockHeight;
+  tx_hash?: string;
+  receipt_id?: string;
+}
+
+function errorMessage(e: unknown): string {
+  return e instanceof Error ? e.message : String(e);
 }
 
 export interface SaveLocation {
   load(): Promise<BlockHeight | undefined>;
   save(height: BlockHeight): Promise<void>;
+  // Optional: persist the transaction preprocessing state next to the checkpoint.
+  // When both are implemented, AutoContinue runs resume pending transactions from the
+  // snapshot instead of prefetching, and leave them pending at the end instead of postfetching.
+  loadTransactionState?(): Promise<TransactionStateSnapshot | undefined>;
+  saveTransactionState?(state: TransactionStateSnapshot): Promise<void>;
+}
+
+// JSON-serializable copy of the pending transactions tracked by runIndexer
+export interface TransactionStateSnapshot {
+  version: 1;
+  // First block not yet applied; the snapshot is only restored if the checkpoint matches
+  next_block_height: BlockHeight;
+  pending: {
+    transaction: IndexerTransactionWithOutcome;
+    receipts: [string, TransactionReceiptSnapshot | null][];
+    started_at: BlockHeight;
+  }[];
+  receipt_to_tx: [string, string][];
+}
+
+export interface TransactionReceiptSnapshot {
+  receipt: IndexerExecutionOutcomeWithReceipt;
+  block_height: BlockHeight;
+  block_timestamp_nanosec: string;
 }
 
 export type AutoContinueEnd =
   | { kind: 'Height'; height: BlockHeight }
   | { kind: 'Count'; count: BlockHeightDelta }
+  // Ends at the first block with a timestamp at or after `time`, which is not processed
+  | { kind: 'Time'; time: TimeInput }
   | { kind: 'Infinite' };
 
 export class AutoContinue {
   public save_location: SaveLocation;
-  public start_height_if_does_not_exist: BlockHeight;
+  // Without a saved height and this, runIndexer starts at the genesis height
+  public start_height_if_does_not_exist?: BlockHeight;
   public end: AutoContinueEnd;
   constructor(
     save_location: SaveLocation,
-    start_height_if_does_not_exist: BlockHeight = MAINNET_GENESIS_BLOCK_HEIGHT,
+    start_height_if_does_not_exist?: BlockHeight,
     end: AutoContinueEnd = { kind: 'Infinite' },
   ) {
     this.save_location = save_location;
@@ -97,12 +262,12 @@ export class AutoContinue {
     this.end = end;
   }
 
-  async getStartBlock(): Promise<BlockHeight> {
-    return (await this.save_location.load()) ?? this.start_height_if_does_not_exist;
+  async getStartBlock(genesis_block_height: BlockHeight = MAINNET_GENESIS_BLOCK_HEIGHT): Promise<BlockHeight> {
+    return (await this.save_location.load()) ?? this.start_height_if_does_not_exist ?? genesis_block_height;
   }
 
-  async range(): Promise<{ start: BlockHeight; end: BlockHeight }> {
-    const start = await this.getStartBlock();
+  async range(genesis_block_height?: BlockHeight): Promise<{ start: BlockHeight; end: BlockHeight }> {
+    const start = await this.getStartBlock(genesis_block_height);
     const end =
       this.end.kind === 'Height'
         ? this.end.height
@@ -180,49 +345,137 @@ export async function runIndexer<I extends Indexer, S extends MessageStreamer>(
   streamer: S,
   options: IndexerOptions,
 ): Promise<void> {
-  const indexerState = new InternalIndexerState();
+  const indexerState = new InternalIndexerState(options.preprocess_transactions?.max_pending_blocks);
+  // Without stop_on_error a failed hook is dead-lettered and the rest of the block still runs
+  const deadLetter = options.stop_on_error
+    ? undefined
+    : async (e: IndexerHookError) => {
+        await options.dead_letter?.record(e.toDeadLetterEntry(), e.cause);
+      };
+  // Runs the hook calls of `step` as a unit. When one fails and attempts are left, the transaction
+  // state is rolled back and the whole step runs again; the last attempt hands failures to deadLetter
+  const runStep = (height: BlockHeight, step: () => Promise<void>) => {
+    let saved: TransactionStateSnapshot | undefined;
+    return withRetry(options.retry, async (attempt, last) => {
+      if (saved) indexerState.restore(saved);
+      saved = last ? undefined : indexerState.snapshot(height + 1);
+      indexerState.attempt = attempt;
+      indexerState.onHookFailure = last ? deadLetter : undefined;
+      await step();
+    });
+  };
 
-  const { start_block_height, end_block_height, post_processor } = await (async () => {
+  const genesis_block_height =
+    options.genesis_block_height ??
+    (streamer.network !== undefined
+      ? getNetwork(streamer.network).genesis_block_height
+      : MAINNET_GENESIS_BLOCK_HEIGHT);
+
+  const resolved = await (async () => {
     if (options.range.kind === 'Range') {
       return {
         start_block_height: options.range.start_inclusive,
         end_block_height: options.range.end_exclusive,
         post_processor: undefined as PostProcessor | undefined,
       };
+    } else if (options.range.kind === 'Timestamp') {
+      const { start, end, resolver } = options.range;
+      const startHeight = await resolver.heightAt(start);
+      if (startHeight === undefined) throw new Error(`No block at or after ${String(start)} yet`);
+      const endHeight = end !== undefined ? await resolver.heightAt(end) : undefined;
+      return {
+        start_block_height: startHeight,
+        end_block_height: endHeight,
+        end_time: endHeight === undefined && end !== undefined ? end : undefined,
+      };
     } else {
-      const r = await options.range.auto.range();
+      const r = await options.range.auto.range(genesis_block_height);
+      const end = options.range.auto.end;
       return {
         start_block_height: r.start,
         end_block_height: r.end === Number.MAX_SAFE_INTEGER ? undefined : r.end,
+        end_time: end.kind === 'Time' ? end.time : undefined,
         post_processor: (options.range.auto as unknown as PostProcessor) as PostProcessor,
       };
     }
   })();
+  const { start_block_height, post_processor } = resolved;
+  let end_block_height = resolved.end_block_height;
+  // Only known as a height once a block at or after this time arrives
+  const endTimeNs = resolved.end_time !== undefined ? toTimestampNanos(resolved.end_time) : undefined;
 
   const preprocess = options.preprocess_transactions;
-  const prefetch_blocks = preprocess?.prefetch_blocks ?? 0;
-  const postfetch_blocks = preprocess?.postfetch_blocks ?? 0;
+  let prefetch_blocks = preprocess?.prefetch_blocks ?? 0;
+  let postfetch_blocks = preprocess?.postfetch_blocks ?? 0;
+
+  const stateLocation =
+    preprocess && options.range.kind === 'AutoContinue' ? options.range.auto.save_location : undefined;
+  const persistState =
+    !!stateLocation?.loadTransactionState && !!stateLocation.saveTransactionState;
+  if (persistState) {
+    const snapshot = await stateLocation!.loadTransactionState!();
+    if (snapshot && snapshot.next_block_height === start_block_height) {
+      indexerState.restore(snapshot);
+      prefetch_blocks = 0;
+    }
+    // Transactions still pending at the end are picked up by the next run
+    postfetch_blocks = 0;
+  }
 
-  const prefetchRangeStart = Math.max(
-    start_block_height - prefetch_blocks,
-    options.genesis_block_height,
-  );
+  const prefetchRangeStart = Math.max(start_block_height - prefetch_blocks, genesis_block_height);
   const prefetchRange = { start: prefetchRangeStart, end: start_block_height };
-  const postfetchRange = {
+  let postfetchRange = {
     start: end_block_height ?? Number.MAX_SAFE_INTEGER,
     end: end_block_height ? end_block_height + postfetch_blocks : Number.MAX_SAFE_INTEGER,
   };
 
-  const startWithPrefetch = Math.max(options.genesis_block_height, start_block_height - prefetch_blocks);
+  const startWithPrefetch = Math.max(genesis_block_height, start_block_height - prefetch_blocks);
   const endWithPostfetch = end_block_height ? end_block_height + postfetch_blocks : undefined;
 
-  const { handle, receiver } = await streamer.stream(startWithPrefetch, endWithPostfetch);
+  // Aborted on shutdown requests and when the loop exits, so the streamer stops fetching
+  const shutdown = new AbortController();
+  const { handle, receiver } = await streamer.stream(
+    startWithPrefetch,
+    endWithPostfetch,
+    shutdown.signal,
+  );
+  // Observed right away so a failing streamer is not an unhandled rejection while we consume
+  const joined = handle.then(
+    () => undefined,
+    (e: unknown) => e ?? new Error('Streamer failed'),
+  );
 
-  // no-op placeholder for start hook parity
+  const onAbort = () => shutdown.abort();
+  if (options.signal?.aborted) shutdown.abort();
+  options.signal?.addEventListener('abort', onAbort, { once: true });
+  const removeSignalHandlers = options.ctrl_c_handler
+    ? installShutdownHandlers(shutdown, options.onShutdownSignal)
+    : () => {};
+
+  const optimistic = options.optimistic ? new OptimisticTracker(options.optimistic) : undefined;
+  const adaptivePostfetch =
+    !!preprocess?.adaptive_postfetch && (end_block_height !== undefined || endTimeNs !== undefined);
+  let lastMessage: StreamerMessage | undefined;
+  let postfetchDone = false;
 
   let hasSentPostfetchMessage = false;
   try {
     for await (const message of receiver) {
+      // Only whole blocks are processed, so the checkpoint of the previous block stays valid
+      if (shutdown.signal.aborted) break;
+
+      if (
+        endTimeNs !== undefined &&
+        end_block_height === undefined &&
+        BigInt(message.block.header.timestamp_nanosec) >= endTimeNs
+      ) {
+        end_block_height = message.block.header.height;
+        postfetchRange = { start: end_block_height, end: end_block_height + postfetch_blocks };
+        if (!postfetch_blocks) break;
+      }
+      // The streamer was started without an end in that case
+      if (endTimeNs !== undefined && message.block.header.height >= postfetchRange.end) break;
+
       const inPrefetch = message.block.header.height >= prefetchRange.start &&
         message.block.header.height < prefetchRange.end;
       const inPostfetch = message.block.header.height >= postfetchRange.start &&
@@ -242,21 +495,110 @@ export async function runIndexer<I extends Indexer, S extends MessageStreamer>(
       };
 
       try {
-        await indexerState.processBlock(indexer, message, processingOptions);
+        await runStep(message.block.header.height, () =>
+          indexerState.processBlock(indexer, message, processingOptions),
+        );
       } catch (e) {
-        if (options.stop_on_error) throw e;
+        if (options.stop_on_error) throw e instanceof IndexerHookError ? e.cause : e;
+        if (options.dead_letter) {
+          const entry = e instanceof IndexerHookError
+            ? e.toDeadLetterEntry()
+            : {
+                block_height: message.block.header.height,
+                hook: 'processBlock' as const,
+                error: errorMessage(e),
+                attempts: 1,
+                failed_at: new Date().toISOString(),
+              };
+          await options.dead_letter.record(entry, e);
+        }
+      }
+
+      // Saved before the checkpoint, so a crash in between only costs a prefetch on restart
+      if (persistState && !inPrefetch && !inPostfetch) {
+        await stateLocation!.saveTransactionState!(
+          indexerState.snapshot(message.block.header.height + 1),
+        );
       }
 
       if (!inPrefetch && post_processor) {
         await post_processor.afterBlock(message, processingOptions, inPostfetch);
       }
+
+      if (optimistic && !inPrefetch) {
+        optimistic.track(message);
+        try {
+          const reverted = await withRetry(options.retry, () => optimistic.confirm(message));
+          for (const { height, replacement } of reverted) {
+            await runStep(height, () => indexerState.revert(indexer, height, replacement));
+          }
+        } catch (e) {
+          if (options.stop_on_error) throw e instanceof IndexerHookError ? e.cause : e;
+          // Failed lookups of the final chain: the blocks stay tracked and are confirmed with a later one.
+          // Failing onRevert calls are dead-lettered like other hooks and don't get here
+        }
+      }
+
+      lastMessage = message;
+      if (
+        adaptivePostfetch &&
+        end_block_height !== undefined &&
+        message.block.header.height + 1 >= end_block_height &&
+        !indexerState.hasPendingStartedIn(start_block_height, end_block_height)
+      ) {
+        postfetchDone = true;
+        break;
+      }
+    }
+
+    // With persisted state the pending transactions stay in the snapshot for the next run,
+    // so timing them out here would report them twice
+    if (
+      adaptivePostfetch &&
+      !persistState &&
+      !postfetchDone &&
+      !shutdown.signal.aborted &&
+      lastMessage &&
+      end_block_height !== undefined
+    ) {
+      const last = lastMessage;
+      await runStep(last.block.header.height, () =>
+        indexerState.timeOutStartedIn(indexer, last, start_block_height, end_block_height!),
+      );
     }
   } finally {
-    await handle; // wait join
-    if (indexer.finalize) await indexer.finalize();
+    shutdown.abort();
+    try {
+      // wait join; a streamer failure is rethrown after finalize()
+      const streamError = await joined;
+      if (indexer.finalize) await indexer.finalize(indexerState.pending());
+      if (streamError) throw streamError;
+    } finally {
+      options.signal?.removeEventListener('abort', onAbort);
+      removeSignalHandlers();
+    }
   }
 }
 
+function installShutdownHandlers(
+  shutdown: AbortController,
+  onShutdownSignal?: (signal: NodeJS.Signals, forced: boolean) => void,
+): () => void {
+  let requested = false;
+  const onSignal = (signal: NodeJS.Signals) => {
+    onShutdownSignal?.(signal, requested);
+    if (requested) process.exit(128 + (os.constants.signals[signal] ?? 0));
+    requested = true;
+    shutdown.abort();
+  };
+  process.on('SIGINT', onSignal);
+  process.on('SIGTERM', onSignal);
+  return () => {
+    process.off('SIGINT', onSignal);
+    process.off('SIGTERM', onSignal);
+  };
+}
+
 export const DefaultPreprocessSettings: PreprocessTransactionsSettings = {
   prefetch_blocks: 100,
   postfetch_blocks: 100,
@@ -267,23 +609,270 @@ export function defaultOptions(range: BlockRange): IndexerOptions {
     stop_on_error: false,
     range,
     preprocess_transactions: undefined,
-    genesis_block_height: MAINNET_GENESIS_BLOCK_HEIGHT,
     ctrl_c_handler: true,
   };
 }
 
+interface TrackedBlock {
+  hash: string;
+  prev_hash: string;
+}
+
+class OptimisticTracker {
+  private source: OptimisticOptions;
+  // Delivered but unconfirmed blocks, in height order
+  private tracked = new Map<BlockHeight, TrackedBlock>();
+  private lastConfirmedHash?: string;
+  // Recently confirmed hashes: a block naming one of them as final confirms nothing new
+  private recentlyConfirmed = new Set<string>();
+
+  constructor(source: OptimisticOptions) {
+    this.source = source;
+  }
+
+  track(message: StreamerMessage) {
+    const { height, hash, prev_hash } = message.block.header;
+    this.tracked.set(height, { hash, prev_hash });
+    const max = this.source.max_tracked_blocks ?? 1000;
+    for (const h of this.tracked.keys()) {
+      if (this.tracked.size <= max) break;
+      this.tracked.delete(h);
+      this.lastConfirmedHash = undefined;
+    }
+  }
+
+  // Confirms tracked blocks up to the final head and returns the ones that were replaced
+  async confirm(latest: StreamerMessage): Promise<{ height: BlockHeight; replacement?: StreamerMessage }[]> {
+    if (!this.tracked.size) return [];
+
+    const lastFinal = latest.block.header.last_final_block;
+    if (this.recentlyConfirmed.has(lastFinal)) return [];
+
+    // Common case without requests: the latest block names a tracked block as final, and the
+    // tracked blocks up to it form an unbroken chain
+    let prevHash = this.lastConfirmedHash;
+    let linkedUpTo: BlockHeight | undefined;
+    for (const [h, b] of this.tracked) {
+      if (prevHash !== undefined && b.prev_hash !== prevHash) break;
+      prevHash = b.hash;
+      if (b.hash === lastFinal) {
+        linkedUpTo = h;
+        break;
+      }
+    }
+    if (linkedUpTo !== undefined) {
+      this.lastConfirmedHash = lastFinal;
+      for (const [h, b] of this.tracked) {
+        if (h > linkedUpTo) break;
+        this.confirmed(b.hash);
+        this.tracked.delete(h);
+      }
+      return [];
+    }
+
+    // Nothing changes until every lookup succeeded, so a failed confirm can be retried
+    const finalHead = await this.source.getFinalHead();
+    const finals: [BlockHeight, TrackedBlock, StreamerMessage | null][] = [];
+    for (const [h, b] of this.tracked) {
+      if (h > finalHead) break;
+      finals.push([h, b, await this.source.getFinalBlock(h)]);
+    }
+    const reverted: { height: BlockHeight; replacement?: StreamerMessage }[] = [];
+    for (const [h, b, final] of finals) {
+      if (final?.block.header.hash !== b.hash) reverted.push({ height: h, replacement: final ?? undefined });
+      this.lastConfirmedHash = final?.block.header.hash;
+      if (final) this.confirmed(final.block.header.hash);
+      this.tracked.delete(h);
+    }
+    return reverted;
+  }
+
+  private confirmed(hash: string) {
+    this.recentlyConfirmed.add(hash);
+    for (const h of this.recentlyConfirmed) {
+      if (this.recentlyConfirmed.size <= 64) break;
+      this.recentlyConfirmed.delete(h);
+    }
+  }
+}
+
+function retryAttempts(retry?: RetryPolicy): number {
+  return Math.max(1, retry?.attempts ?? 1);
+}
+
+// Calls `call` until it succeeds or the attempts of `retry` run out, then rethrows the last error
+async function withRetry<T>(
+  retry: RetryPolicy | undefined,
+  call: (attempt: number, last: boolean) => Promise<T>,
+): Promise<T> {
+  const attempts = retryAttempts(retry);
+  let delay = retry?.backoff_ms ?? 0;
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await call(attempt, attempt >= attempts);
+    } catch (e) {
+      if (attempt >= attempts) throw e;
+      await sleep(delay);
+      delay = Math.min(delay * (retry?.backoff_multiplier ?? 2), retry?.max_backoff_ms ?? 60_000);
+    }
+  }
+}
+
 // Implementation of the state machine, ported from Rust's IndexerState
 class InternalIndexerState {
   private pendingTransactions = new Map<string, IncompleteTransaction>();
   private receiptToTx = new Map<string, string>();
+  // Height of the block each pending transaction was included in
+  private startedAt = new Map<string, BlockHeight>();
+  private maxPendingBlocks?: BlockHeightDelta;
+  // Set by runIndexer for each attempt at a block: failing hooks go to onHookFailure when set,
+  // otherwise they throw and the attempt ends
+  public attempt = 1;
+  public onHookFailure?: (e: IndexerHookError) => Promise<void>;
+
+  constructor(maxPendingBlocks?: BlockHeightDelta) {
+    this.maxPendingBlocks = maxPendingBlocks;
+  }
+
+  pending(): IncompleteTransaction[] {
+    return Array.from(this.pendingTransactions.values());
+  }
+
+  private forget(txId: string, tx: IncompleteTransaction) {
+    this.pendingTransactions.delete(txId);
+    this.startedAt.delete(txId);
+    for (const receiptId of tx.receipts.keys()) this.receiptToTx.delete(receiptId);
+  }
+
+  hasPendingStartedIn(start: BlockHeight, end: BlockHeight): boolean {
+    for (const txId of this.pendingTransactions.keys()) {
+      const startedAt = this.startedAt.get(txId);
+      if (startedAt !== undefined && startedAt >= start && startedAt < end) return true;
+    }
+    return false;
+  }
+
+  async timeOutStartedIn(indexer: Indexer, message: StreamerMessage, start: BlockHeight, end: BlockHeight) {
+    for (const txId of Array.from(this.pendingTransactions.keys())) {
+      const startedAt = this.startedAt.get(txId);
+      if (startedAt === undefined || startedAt < start || startedAt >= end) continue;
+      await this.timeOut(indexer, message, txId, 'PostfetchCap', true);
+    }
+  }
+
+  private async evictStale(indexer: Indexer, message: StreamerMessage, options: BlockProcessingOptions) {
+    if (this.maxPendingBlocks === undefined) return;
+    const block_height = message.block.header.height;
+    for (const txId of Array.from(this.pendingTransactions.keys())) {
+      const startedAt = this.startedAt.get(txId) ?? block_height;
+      if (block_height - startedAt < this.maxPendingBlocks) continue;
+      await this.timeOut(
+        indexer,
+        message,
+        txId,
+        'MaxPendingBlocks',
+        options.handle_preprocessed_transactions_by_indexer,
+      );
+    }
+  }
+
+  private async timeOut(
+    indexer: Indexer,
+    message: StreamerMessage,
+    txId: string,
+    reason: TransactionTimeoutReason,
+    notify: boolean,
+  ) {
+    const tx = this.pendingTransactions.get(txId);
+    if (!tx) return;
+    this.forget(txId, tx);
+    if (indexer.onTransactionTimeout && notify) {
+      const missing = Array.from(tx.receipts.entries())
+        .filter(([, r]) => r === null)
+        .map(([id]) => id);
+      await this.callHook(
+        'onTransactionTimeout',
+        { block_height: message.block.header.height, tx_hash: txId },
+        () => indexer.onTransactionTimeout!(tx, missing, message, reason),
+      );
+    }
+  }
+
+  async revert(indexer: Indexer, height: BlockHeight, replacement?: StreamerMessage) {
+    if (!indexer.onRevert) return;
+    await this.callHook('onRevert', { block_height: height }, () => indexer.onRevert!(height, replacement));
+  }
+
+  snapshot(next_block_height: BlockHeight): TransactionStateSnapshot {
+    return {
+      version: 1,
+      next_block_height,
+      pending: Array.from(this.pendingTransactions.values()).map((tx) => ({
+        transaction: tx.transaction,
+        started_at: this.startedAt.get(tx.transaction.transaction.hash) ?? next_block_height - 1,
+        receipts: Array.from(tx.receipts.entries()).map(([id, r]) => [
+          id,
+          r
+            ? {
+                receipt: r.receipt,
+                block_height: r.block_height,
+                block_timestamp_nanosec: r.block_timestamp_nanosec,
+              }
+            : null,
+        ]),
+      })),
+      receipt_to_tx: Array.from(this.receiptToTx.entries()),
+    };
+  }
+
+  restore(snapshot: TransactionStateSnapshot) {
+    if (snapshot.version !== 1) {
+      throw new Error(`Unsupported transaction state snapshot version ${snapshot.version}`);
+    }
+    this.pendingTransactions = new Map(
+      snapshot.pending.map((tx) => [
+        tx.transaction.transaction.hash,
+        {
+          transaction: tx.transaction,
+          receipts: new Map(
+            tx.receipts.map(([id, r]) => [
+              id,
+              r
+                ? new DefaultTransactionReceipt(r.receipt, r.block_height, r.block_timestamp_nanosec)
+                : null,
+            ]),
+          ),
+        },
+      ]),
+    );
+    this.receiptToTx = new Map(snapshot.receipt_to_tx);
+    this.startedAt = new Map(
+      snapshot.pending.map((tx) => [tx.transaction.transaction.hash, tx.started_at]),
+    );
+  }
+
+  private async callHook(
+    hook: IndexerHookName,
+    context: HookContext,
+    call: () => Promise<void>,
+  ): Promise<void> {
+    try {
+      await call();
+    } catch (e) {
+      const error = new IndexerHookError(hook, context, this.attempt, e);
+      if (!this.onHookFailure) throw error;
+      await this.onHookFailure(error);
+    }
+  }
 
   async processBlock(
     indexer: Indexer,
     message: StreamerMessage,
     options: BlockProcessingOptions,
   ): Promise<void> {
+    const block_height = message.block.header.height;
     if (indexer.processBlock && options.handle_raw_events) {
-      await indexer.processBlock(message);
+      await this.callHook('processBlock', { block_height }, () => indexer.processBlock!(message));
     }
 
     // Process transactions
@@ -304,10 +893,15 @@ class InternalIndexerState {
               transaction: tx,
               receipts,
             });
+            this.startedAt.set(tx.transaction.hash, block_height);
           }
         }
         if (indexer.processTransaction && options.handle_raw_events) {
-          await indexer.processTransaction(tx, message);
+          await this.callHook(
+            'processTransaction',
+            { block_height, tx_hash: tx.transaction.hash },
+            () => indexer.processTransaction!(tx, message),
+          );
         }
       }
     }
@@ -318,6 +912,8 @@ class InternalIndexerState {
         const txId = this.receiptToTx.get(receipt.receipt.receipt_id);
         if (txId && options.preprocess) {
           const incomplete = this.pendingTransactions.get(txId);
+          // The transaction completed or was evicted, so the mapping is no longer needed
+          if (!incomplete) this.receiptToTx.delete(receipt.receipt.receipt_id);
           if (incomplete) {
             const processed: TransactionReceipt = {
               receipt,
@@ -339,7 +935,11 @@ class InternalIndexerState {
               },
             };
             if (indexer.onReceipt && options.handle_preprocessed_transactions_by_indexer) {
-              await indexer.onReceipt(processed, incomplete, message);
+              await this.callHook(
+                'onReceipt',
+                { block_height, tx_hash: txId, receipt_id: receipt.receipt.receipt_id },
+                () => indexer.onReceipt!(processed, incomplete, message),
+              );
             }
             incomplete.receipts.set(receipt.receipt.receipt_id, processed);
             for (const newReceiptId of receipt.execution_outcome.outcome.receipt_ids) {
@@ -352,7 +952,7 @@ class InternalIndexerState {
             // Try to complete
             const all = Array.from(incomplete.receipts.values());
             if (all.every((r) => r !== null)) {
-              this.pendingTransactions.delete(txId);
+              this.forget(txId, incomplete);
               const complete: CompleteTransaction = {
                 transaction: incomplete.transaction,
                 receipts: all as TransactionReceipt[],
@@ -361,20 +961,34 @@ class InternalIndexerState {
                 },
               };
               if (indexer.onTransaction && options.handle_preprocessed_transactions_by_indexer) {
-                await indexer.onTransaction(complete, message);
+                await this.callHook(
+                  'onTransaction',
+                  { block_height, tx_hash: txId },
+                  () => indexer.onTransaction!(complete, message),
+                );
               }
             }
           }
         }
 
         if (indexer.processReceipt && options.handle_raw_events) {
-          await indexer.processReceipt(receipt, message);
+          await this.callHook(
+            'processReceipt',
+            {
+              block_height,
+              tx_hash: txId ?? receipt.tx_hash ?? undefined,
+              receipt_id: receipt.receipt.receipt_id,
+            },
+            () => indexer.processReceipt!(receipt, message),
+          );
         }
       }
     }
 
+    await this.evictStale(indexer, message, options);
+
     if (indexer.processBlockEnd) {
-      await indexer.processBlockEnd(message);
+      await this.callHook('processBlockEnd', { block_height }, () => indexer.processBlockEnd!(message));
     }
   }
 }
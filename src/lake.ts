@@ -0,0 +1,216 @@
+import { createHash, createHmac } from 'node:crypto';
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import type { BlockHeight, StreamerMessage } from './types.js';
+import type { MessageProvider } from './message_provider.js';
+import { ParallelProviderStreamer, type ParallelStreamerOptions } from './message_provider.js';
+import { mapNeardataBlock } from './neardata_mapper.js';
+import type { ChainId } from './networks.js';
+
+// Blocks in the NEAR Lake layout: <12-digit zero-padded height>/block.json holds the BlockView,
+// and <height>/shard_<shard_id>.json holds each IndexerShard. Heights without a block have no
+// folder. The files can come from an S3-compatible bucket (near-lake-data-mainnet, MinIO, ...)
+// or from a directory holding the same tree.
+
+export interface LakeSource {
+  // File contents, or null if the key does not exist
+  get(key: string): Promise<string | null>;
+}
+
+export function lakeBlockPrefix(height: BlockHeight): string {
+  return String(height).padStart(12, '0');
+}
+
+export class LocalLakeSource implements LakeSource {
+  public dir: string;
+  constructor(dir: string) {
+    this.dir = dir;
+  }
+
+  async get(key: string): Promise<string | null> {
+    try {
+      return await fs.readFile(path.join(this.dir, ...key.split('/')), 'utf8');
+    } catch (e: any) {
+      if (e?.code === 'ENOENT') return null;
+      throw e;
+    }
+  }
+}
+
+export interface AwsCredentials {
+  access_key_id: string;
+  secret_access_key: string;
+  session_token?: string;
+}
+
+export interface S3LakeSourceOptions {
+  bucket: string; // e.g. 'near-lake-data-mainnet'
+  region?: string; // default 'eu-central-1', where the public lake buckets live
+  // S3-compatible server such as MinIO, e.g. 'http://localhost:9000'; addressed path-style
+  endpoint?: string;
+  // Defaults to AWS_ACCESS_KEY_ID / AWS_SECRET_ACCESS_KEY / AWS_SESSION_TOKEN; unsigned requests without them
+  credentials?: AwsCredentials;
+  requester_pays?: boolean; // default true without `endpoint`, as the public lake buckets require it
+  timeout_ms?: number; // per request; default 30_000
+}
+
+export class S3RequestError extends Error {
+  public status: number;
+  public key: string;
+  public body: string;
+  constructor(status: number, key: string, body: string) {
+    super(`S3 GET ${key} failed ${status}: ${body}`);
+    this.name = 'S3RequestError';
+    this.status = status;
+    this.key = key;
+    this.body = body;
+  }
+}
+
+export class S3LakeSource implements LakeSource {
+  private options: S3LakeSourceOptions;
+  private region: string;
+  private credentials?: AwsCredentials;
+  constructor(options: S3LakeSourceOptions) {
+    this.options = options;
+    this.region = options.region ?? 'eu-central-1';
+    const env = process.env;
+    this.credentials =
+      options.credentials ??
+      (env.AWS_ACCESS_KEY_ID && env.AWS_SECRET_ACCESS_KEY
+        ? {
+            access_key_id: env.AWS_ACCESS_KEY_ID,
+            secret_access_key: env.AWS_SECRET_ACCESS_KEY,
+            session_token: env.AWS_SESSION_TOKEN,
+          }
+        : undefined);
+  }
+
+  private urlFor(key: string): string {
+    const encodedKey = key.split('/').map(encodeRfc3986).join('/');
+    const bucket = encodeRfc3986(this.options.bucket);
+    if (this.options.endpoint) return `${this.options.endpoint.replace(/\/$/, '')}/${bucket}/${encodedKey}`;
+    return `https://${bucket}.s3.${this.region}.amazonaws.com/${encodedKey}`;
+  }
+
+  async get(key: string): Promise<string | null> {
+    const fetchFn: any = (globalThis as any).fetch;
+    if (!fetchFn) throw new Error('global fetch not available (Node 18+ required)');
+    const url = this.urlFor(key);
+    const headers: Record<string, string> = {};
+    if (this.options.requester_pays ?? !this.options.endpoint) headers['x-amz-request-payer'] = 'requester';
+    const signed = this.credentials
+      ? signS3Request({ method: 'GET', url, headers, region: this.region, credentials: this.credentials })
+      : headers;
+    const res = await fetchFn(url, { headers: signed, signal: AbortSignal.timeout(this.options.timeout_ms ?? 30_000) });
+    if (res.status === 404) return null;
+    if (!res.ok) throw new S3RequestError(res.status, key, await res.text().catch(() => ''));
+    return res.text();
+  }
+}
+
+export interface SignS3RequestParams {
+  method: string;
+  url: string;
+  headers?: Record<string, string>;
+  region: string;
+  credentials: AwsCredentials;
+  date?: Date; // default now
+  payload_hash?: string; // hex sha256 of the body; default the hash of an empty body
+}
+
+// AWS Signature Version 4 for S3. Returns the headers to send, including Authorization;
+// `host` is signed but left out, as fetch derives it from the URL.
+export function signS3Request(params: SignS3RequestParams): Record<string, string> {
+  const url = new URL(params.url);
+  const amzDate = (params.date ?? new Date()).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+  const day = amzDate.slice(0, 8);
+  const payloadHash = params.payload_hash ?? sha256Hex('');
+
+  const headers: Record<string, string> = {
+    ...(params.headers ?? {}),
+    'x-amz-content-sha256': payloadHash,
+    'x-amz-date': amzDate,
+    ...(params.credentials.session_token ? { 'x-amz-security-token': params.credentials.session_token } : {}),
+  };
+  const canonicalHeaders = Object.entries({ ...headers, host: url.host })
+    .map(([k, v]) => [k.toLowerCase(), String(v).trim().replace(/\s+/g, ' ')] as const)
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+  const signedHeaders = canonicalHeaders.map(([k]) => k).join(';');
+  const query = [...url.searchParams.entries()]
+    .map(([k, v]) => [encodeRfc3986(k), encodeRfc3986(v)])
+    .sort(([a, av], [b, bv]) => (a < b ? -1 : a > b ? 1 : av < bv ? -1 : av > bv ? 1 : 0))
+    .map(([k, v]) => `${k}=${v}`)
+    .join('&');
+
+  const canonicalRequest = [
+    params.method.toUpperCase(),
+    url.pathname || '/',
+    query,
+    canonicalHeaders.map(([k, v]) => `${k}:${v}\n`).join(''),
+    signedHeaders,
+    payloadHash,
+  ].join('\n');
+  const scope = `${day}/${params.region}/s3/aws4_request`;
+  const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256Hex(canonicalRequest)].join('\n');
+
+  let key: Buffer = hmac(`AWS4${params.credentials.secret_access_key}`, day);
+  for (const part of [params.region, 's3', 'aws4_request']) key = hmac(key, part);
+  const signature = createHmac('sha256', key).update(stringToSign).digest('hex');
+
+  return {
+    ...headers,
+    authorization: `AWS4-HMAC-SHA256 Credential=${params.credentials.access_key_id}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`,
+  };
+}
+
+function sha256Hex(data: string): string {
+  return createHash('sha256').update(data).digest('hex');
+}
+
+function hmac(key: string | Buffer, data: string): Buffer {
+  return createHmac('sha256', key).update(data).digest();
+}
+
+function encodeRfc3986(s: string): string {
+  return encodeURIComponent(s).replace(/[!'()*]/g, (c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`);
+}
+
+export class LakeProvider implements MessageProvider {
+  public readonly network?: ChainId;
+  private source: LakeSource;
+  // `network` is the chain the lake holds; runIndexer takes the genesis height from it
+  constructor(source: LakeSource | string, network?: ChainId) {
+    this.source = typeof source === 'string' ? new LocalLakeSource(source) : source;
+    this.network = network;
+  }
+
+  async getMessage(height: BlockHeight): Promise<StreamerMessage | null> {
+    const prefix = lakeBlockPrefix(height);
+    const blockJson = await this.source.get(`${prefix}/block.json`);
+    if (blockJson === null) return null; // skipped height
+    const block = JSON.parse(blockJson);
+    const shards = await Promise.all(
+      (block.chunks ?? []).map(async (chunk: { shard_id: number }) => {
+        const key = `${prefix}/shard_${chunk.shard_id}.json`;
+        const json = await this.source.get(key);
+        // Incomplete upload or copy of the lake; the streamer retries the height
+        if (json === null) throw new Error(`Lake block ${height} is missing ${key}`);
+        return JSON.parse(json);
+      }),
+    );
+    return mapNeardataBlock({ block, shards });
+  }
+}
+
+export interface LakeStreamerOptions extends ParallelStreamerOptions {
+  workers?: number; // concurrent block downloads; default 8
+  network?: ChainId; // the chain the lake holds
+}
+
+// Parallel prefetching streamer over a lake source
+export class LakeStreamer extends ParallelProviderStreamer<LakeProvider> {
+  constructor(source: LakeSource | string, options: LakeStreamerOptions = {}) {
+    super(new LakeProvider(source, options.network), options.workers ?? 8, options);
+  }
+}
@@ -0,0 +1,158 @@
+import type { AccountId } from './types.js';
+import {
+  deserializeTknFarmTransferLog,
+  isU128String,
+  isValidAccountId,
+  matchesAccount,
+  NEP141_EVENT_STANDARD_STRING,
+  NEP171_EVENT_STANDARD_STRING,
+  type AccountPattern,
+  type EventLogData,
+  type FtBurnLog,
+  type FtMintLog,
+  type FtTransferLog,
+  type NftMintLog,
+  type NftTransferLog,
+} from './near_utils.js';
+
+// Parsers for free-text logs of contracts that predate NEP-297. They normalize a log into the
+// event NEP-297 would have emitted (e.g. nep141 ft_transfer), so consumers handle one shape.
+// Any contract can log any text, so the built-in parsers only accept the contracts known to use
+// their format. To trust other contracts, widen `contract`, e.g. { ...legacyFtTransferParser, contract: '*' }
+
+export interface LegacyLogParser {
+  name: string;
+  contract: AccountPattern | AccountPattern[];
+  // undefined when the log is not in this parser's format
+  parse(log: string, contract_id: AccountId): EventLogData<unknown> | undefined;
+}
+
+export interface ParsedLegacyLog {
+  parser: string;
+  event: EventLogData<unknown>;
+}
+
+// Parsers are tried in registration order; the first one that matches the contract and
+// recognizes the log wins
+export class LegacyLogRegistry {
+  private parsers: LegacyLogParser[];
+  constructor(parsers: LegacyLogParser[] = defaultLegacyLogParsers) {
+    this.parsers = [...parsers];
+  }
+
+  register(parser: LegacyLogParser): this {
+    this.parsers.push(parser);
+    return this;
+  }
+
+  parse(log: string, contract_id: AccountId): ParsedLegacyLog | undefined {
+    for (const parser of this.parsers) {
+      if (!matchesAccount(parser.contract, contract_id)) continue;
+      let event: EventLogData<unknown> | undefined;
+      try {
+        event = parser.parse(log, contract_id);
+      } catch {
+        continue; // a parser throwing on a foreign format just doesn't match
+      }
+      if (event) return { parser: parser.name, event };
+    }
+    return undefined;
+  }
+}
+
+function ftEvent(event: 'ft_mint', data: FtMintLog): EventLogData<FtMintLog>;
+function ftEvent(event: 'ft_burn', data: FtBurnLog): EventLogData<FtBurnLog>;
+function ftEvent(event: 'ft_transfer', data: FtTransferLog): EventLogData<FtTransferLog>;
+function ftEvent(event: string, data: unknown): EventLogData<unknown> {
+  return { standard: NEP141_EVENT_STANDARD_STRING, version: '1.0.0', event, data };
+}
+
+function nftEvent(event: 'nft_mint', data: NftMintLog): EventLogData<NftMintLog>;
+function nftEvent(event: 'nft_transfer', data: NftTransferLog): EventLogData<NftTransferLog>;
+function nftEvent(event: string, data: unknown): EventLogData<unknown> {
+  return { standard: NEP171_EVENT_STANDARD_STRING, version: '1.0.0', event, data };
+}
+
+// "Transfer <amount> from <old> to <new>", logged by tkn.farm tokens and by early
+// near-contract-standards FTs (wrap.near among them)
+export const legacyFtTransferParser: LegacyLogParser = {
+  name: 'ft_transfer_text',
+  contract: ['*.tkn.near', 'wrap.near', 'wrap.testnet'],
+  parse(log) {
+    if (!log.startsWith('Transfer ')) return undefined;
+    const [t] = deserializeTknFarmTransferLog(log);
+    if (!isU128String(t.amount) || !isValidAccountId(t.old_owner_id) || !isValidAccountId(t.new_owner_id)) {
+      return undefined;
+    }
+    return ftEvent('ft_transfer', [t]);
+  },
+};
+
+// wrap.near: "Deposit <amount> NEAR to <account>" mints wNEAR, "Withdraw <amount> NEAR from <account>" burns it
+export const wrapNearParser: LegacyLogParser = {
+  name: 'wrap_near',
+  contract: ['wrap.near', 'wrap.testnet'],
+  parse(log) {
+    const m = /^(Deposit|Withdraw) (\d+) NEAR (?:to|from) (\S+)$/.exec(log);
+    if (!m || !isU128String(m[2]) || !isValidAccountId(m[3])) return undefined;
+    const entry = { owner_id: m[3], amount: m[2] };
+    return m[1] === 'Deposit' ? ftEvent('ft_mint', [entry]) : ftEvent('ft_burn', [entry]);
+  },
+};
+
+// Ref Finance: "Swapped <amount_in> <token_in> for <amount_out> <token_out>". A swap moves balances
+// held inside the exchange, not tokens, so it is reported as its own event rather than a transfer
+export const REF_SWAP_STANDARD_STRING = 'ref_swap';
+export interface RefSwapEvent {
+  token_in: AccountId;
+  amount_in: string;
+  token_out: AccountId;
+  amount_out: string;
+}
+export type RefSwapLog = RefSwapEvent[];
+
+export const refSwapParser: LegacyLogParser = {
+  name: 'ref_swap',
+  contract: ['v2.ref-finance.near', 'ref-finance-101.testnet'],
+  parse(log) {
+    const m = /^Swapped (\d+) ([^\s,]+) for (\d+) ([^\s,]+)/.exec(log);
+    if (!m) return undefined;
+    const [, amount_in, token_in, amount_out, token_out] = m;
+    if (!isU128String(amount_in) || !isU128String(amount_out)) return undefined;
+    if (!isValidAccountId(token_in) || !isValidAccountId(token_out)) return undefined;
+    const data: RefSwapLog = [{ token_in, amount_in, token_out, amount_out }];
+    return { standard: REF_SWAP_STANDARD_STRING, version: '1.0.0', event: 'swap', data };
+  },
+};
+
+// Paras: {"type":"nft_transfer","params":{"token_id","sender_id","receiver_id"}}
+// and {"type":"nft_mint","params":{"token_id","owner_id"}}
+export const jsonNftLogParser: LegacyLogParser = {
+  name: 'json_nft',
+  contract: ['x.paras.near', 'paras-token-v2.testnet'],
+  parse(log) {
+    if (!log.startsWith('{"type":"nft_')) return undefined;
+    const { type, params } = JSON.parse(log);
+    if (!params || typeof params.token_id !== 'string') return undefined;
+    const memo = typeof params.memo === 'string' ? params.memo : undefined;
+    if (type === 'nft_transfer') {
+      if (!isValidAccountId(params.sender_id) || !isValidAccountId(params.receiver_id)) return undefined;
+      return nftEvent('nft_transfer', [
+        { old_owner_id: params.sender_id, new_owner_id: params.receiver_id, token_ids: [params.token_id], memo },
+      ]);
+    }
+    if (type === 'nft_mint') {
+      const owner_id = params.owner_id ?? params.receiver_id;
+      if (!isValidAccountId(owner_id)) return undefined;
+      return nftEvent('nft_mint', [{ owner_id, token_ids: [params.token_id], memo }]);
+    }
+    return undefined;
+  },
+};
+
+export const defaultLegacyLogParsers: LegacyLogParser[] = [
+  wrapNearParser,
+  refSwapParser,
+  legacyFtTransferParser,
+  jsonNftLogParser,
+];
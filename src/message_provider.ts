@@ -1,46 +1,57 @@
 import type { BlockHeight, StreamerMessage } from './types.js';
 import type { MessageStreamer } from './indexer.js';
+import { AsyncQueue, linkedAbortController, sleep } from './async_utils.js';
 
 export interface MessageProvider<E = unknown> {
+  readonly network?: string; // passed on by the streamers below, see MessageStreamer.network
   getMessage(blockHeight: BlockHeight): Promise<StreamerMessage | null>;
 }
 
-// Simple async queue to bridge producer/consumer with backpressure
-class AsyncQueue<T> {
-  private values: (T | undefined)[] = [];
-  private resolvers: ((value: IteratorResult<T>) => void)[] = [];
-  private done = false;
-
-  push(v: T) {
-    if (this.done) return;
-    if (this.resolvers.length) {
-      const r = this.resolvers.shift()!;
-      r({ value: v, done: false });
-    } else {
-      this.values.push(v);
-    }
-  }
+export interface StreamerRetryOptions {
+  max_retries: number; // per height; default 10
+  backoff_ms: number; // first delay; default 1000
+  max_backoff_ms?: number; // default 30_000
+}
 
-  close() {
-    this.done = true;
-    for (const r of this.resolvers) r({ value: undefined as any, done: true });
-    this.resolvers = [];
+export const DefaultStreamerRetry: StreamerRetryOptions = {
+  max_retries: 10,
+  backoff_ms: 1000,
+  max_backoff_ms: 30_000,
+};
+
+// Raised through the streamer's `handle` and receiver once a height keeps failing after all retries
+export class StreamerFetchError extends Error {
+  public height: BlockHeight;
+  public attempts: number;
+  constructor(height: BlockHeight, attempts: number, cause: unknown) {
+    super(
+      `Fetching block ${height} failed after ${attempts} attempt(s): ${
+        cause instanceof Error ? cause.message : String(cause)
+      }`,
+      { cause },
+    );
+    this.name = 'StreamerFetchError';
+    this.height = height;
+    this.attempts = attempts;
   }
+}
 
-  async *iterator(): AsyncGenerator<T> {
-    while (true) {
-      if (this.values.length) {
-        const v = this.values.shift()!;
-        // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
-        yield v!;
-        continue;
-      }
-      if (this.done) return;
-      const v = await new Promise<IteratorResult<T>>((resolve) => {
-        this.resolvers.push(resolve);
-      });
-      if (v.done) return;
-      yield v.value as T;
+// Resolves to null without retrying further once `signal` is aborted
+async function getMessageWithRetry(
+  provider: MessageProvider,
+  height: BlockHeight,
+  retry: StreamerRetryOptions,
+  signal?: AbortSignal,
+): Promise<StreamerMessage | null> {
+  let delay = retry.backoff_ms;
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await provider.getMessage(height);
+    } catch (e) {
+      if (attempt > retry.max_retries) throw new StreamerFetchError(height, attempt, e);
+      await sleep(delay, signal);
+      if (signal?.aborted) return null;
+      delay = Math.min(delay * 2, retry.max_backoff_ms ?? 30_000);
     }
   }
 }
@@ -48,99 +59,115 @@ class AsyncQueue<T> {
 export class ProviderStreamer<P extends MessageProvider> implements MessageStreamer {
   private provider: P;
   private bufferSize: number;
-  constructor(provider: P, bufferSize = 100) {
+  private retry: StreamerRetryOptions;
+  constructor(provider: P, bufferSize = 100, retry: StreamerRetryOptions = DefaultStreamerRetry) {
     this.provider = provider;
     this.bufferSize = bufferSize;
+    this.retry = retry;
   }
 
-  async stream(first: BlockHeight, lastExclusive?: BlockHeight) {
-    const queue = new AsyncQueue<StreamerMessage>();
+  get network() {
+    return this.provider.network;
+  }
+
+  async stream(first: BlockHeight, lastExclusive?: BlockHeight, signal?: AbortSignal) {
+    const queue = new AsyncQueue<StreamerMessage>(this.bufferSize);
     const end = lastExclusive ?? Number.MAX_SAFE_INTEGER;
 
+    // Aborted once the producer ends, e.g. because the consumer stopped, so a fetch waiting to retry ends too
+    const stop = linkedAbortController(signal);
+    const stopped = stop.signal;
+
     const handle = (async () => {
-      for (let h = first; h < end; h++) {
-        let retries = 0;
-        // retry loop
-        // eslint-disable-next-line no-constant-condition
-        while (true) {
-          try {
-            const msg = await this.provider.getMessage(h);
-            if (msg) queue.push(msg);
-            break; // success or fork skip
-          } catch (err) {
-            retries++;
-            // Backoff 1s
-            await new Promise((r) => setTimeout(r, 1000));
-          }
+      try {
+        // The queue is closed once the consumer stopped
+        for (let h = first; h < end && !stopped.aborted && !queue.closed; h++) {
+          const msg = await getMessageWithRetry(this.provider, h, this.retry, stopped);
+          if (msg && !(await queue.push(msg))) break; // null: skipped height
         }
+        queue.close();
+      } catch (e) {
+        queue.close(e);
+        throw e;
+      } finally {
+        stop.abort();
+        stop.dispose();
       }
-      queue.close();
     })();
 
     return { handle, receiver: queue.iterator() };
   }
 }
 
+export interface ParallelStreamerOptions {
+  // Blocks fetched ahead of the consumer, including the in-order reorder window; default 100
+  buffer_size?: number;
+  retry?: StreamerRetryOptions;
+}
+
 export class ParallelProviderStreamer<P extends MessageProvider> implements MessageStreamer {
   private provider: P;
   private workers: number;
-  constructor(provider: P, workers = 4) {
+  private bufferSize: number;
+  private retry: StreamerRetryOptions;
+  constructor(provider: P, workers = 4, options: ParallelStreamerOptions = {}) {
     this.provider = provider;
-    this.workers = workers;
+    this.workers = Math.max(1, workers);
+    this.bufferSize = Math.max(this.workers, options.buffer_size ?? 100);
+    this.retry = options.retry ?? DefaultStreamerRetry;
+  }
+
+  get network() {
+    return this.provider.network;
   }
 
-  async stream(first: BlockHeight, lastExclusive?: BlockHeight) {
-    const queue = new AsyncQueue<StreamerMessage>();
+  async stream(first: BlockHeight, lastExclusive?: BlockHeight, signal?: AbortSignal) {
     const end = lastExclusive ?? Number.MAX_SAFE_INTEGER;
+    // In-flight and completed-but-unsent fetches share the buffer with the output queue
+    const window = Math.max(this.workers, Math.floor(this.bufferSize / 2));
+    const queue = new AsyncQueue<StreamerMessage>(Math.max(1, this.bufferSize - window));
+
+    // Aborted once the producer ends, e.g. because the consumer stopped; fetches waiting for a
+    // worker then don't start and retries end
+    const stop = linkedAbortController(signal);
+    const stopped = stop.signal;
 
     const handle = (async () => {
-      let nextToEmit = first;
-      const results = new Map<BlockHeight, StreamerMessage | null>();
+      const pending: Promise<StreamerMessage | null>[] = [];
       let active = 0;
-      let scheduled = first;
-
-      const scheduleOne = async (h: BlockHeight) => {
+      const slotWaiters: (() => void)[] = [];
+      stopped.addEventListener('abort', () => slotWaiters.splice(0).forEach((w) => w()), { once: true });
+      const fetchOne = async (h: BlockHeight) => {
+        while (active >= this.workers && !stopped.aborted) await new Promise<void>((r) => slotWaiters.push(r));
+        if (stopped.aborted) return null;
         active++;
         try {
-          let retries = 0;
-          // eslint-disable-next-line no-constant-condition
-          while (true) {
-            try {
-              const msg = await this.provider.getMessage(h);
-              results.set(h, msg);
-              break;
-            } catch {
-              retries++;
-              await new Promise((r) => setTimeout(r, 1000));
-            }
-          }
+          return await getMessageWithRetry(this.provider, h, this.retry, stopped);
         } finally {
           active--;
-          // attempt to drain in order
-          while (true) {
-            const have = results.has(nextToEmit);
-            if (!have) break;
-            const msg = results.get(nextToEmit)!;
-            results.delete(nextToEmit);
-            if (msg) queue.push(msg);
-            nextToEmit++;
-          }
-          // Schedule next if room
-          if (scheduled < end) {
-            const h2 = scheduled++;
-            // fire and forget
-            scheduleOne(h2);
-          } else if (active === 0 && results.size === 0) {
-            queue.close();
-          }
+          slotWaiters.shift()?.();
         }
       };
 
-      // prime workers
-      for (let i = 0; i < this.workers && scheduled < end; i++) {
-        const h = scheduled++;
-        // fire and forget
-        scheduleOne(h);
+      let scheduled = first;
+      try {
+        while (!stopped.aborted && !queue.closed) {
+          while (pending.length < window && scheduled < end) {
+            const p = fetchOne(scheduled++);
+            p.catch(() => {}); // awaited in order below
+            pending.push(p);
+          }
+          if (!pending.length) break;
+          const msg = await pending.shift()!;
+          if (msg && !(await queue.push(msg))) break;
+        }
+        queue.close();
+      } catch (e) {
+        queue.close(e);
+        throw e;
+      } finally {
+        stop.abort();
+        stop.dispose();
       }
     })();
 
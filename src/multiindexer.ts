@@ -3,8 +3,14 @@ import type {
   CompleteTransaction,
   TransactionReceipt,
   IncompleteTransaction,
+  TransactionTimeoutReason,
 } from './indexer.js';
-import type { StreamerMessage, IndexerExecutionOutcomeWithReceipt, IndexerTransactionWithOutcome } from './types.js';
+import type {
+  BlockHeight,
+  StreamerMessage,
+  IndexerExecutionOutcomeWithReceipt,
+  IndexerTransactionWithOutcome,
+} from './types.js';
 
 export class MultiIndexer<E = unknown> implements Indexer<E> {
   private indexers: Indexer<E>[];
@@ -32,11 +38,23 @@ export class MultiIndexer<E = unknown> implements Indexer<E> {
   async onReceipt(r: TransactionReceipt, itx: IncompleteTransaction, block: StreamerMessage) {
     for (const i of this.indexers) if (i.onReceipt) await i.onReceipt(r, itx, block);
   }
+  async onTransactionTimeout(
+    itx: IncompleteTransaction,
+    missing: string[],
+    block: StreamerMessage,
+    reason: TransactionTimeoutReason,
+  ) {
+    for (const i of this.indexers)
+      if (i.onTransactionTimeout) await i.onTransactionTimeout(itx, missing, block, reason);
+  }
   async processBlockEnd(block: StreamerMessage) {
     for (const i of this.indexers) if (i.processBlockEnd) await i.processBlockEnd(block);
   }
-  async finalize() {
-    for (const i of this.indexers) if (i.finalize) await i.finalize();
+  async onRevert(height: BlockHeight, replacement?: StreamerMessage) {
+    for (const i of this.indexers) if (i.onRevert) await i.onRevert(height, replacement);
+  }
+  async finalize(pending?: IncompleteTransaction[]) {
+    for (const i of this.indexers) if (i.finalize) await i.finalize(pending);
   }
 }
 
@@ -93,6 +111,19 @@ export class MapErrorIndexer<E, E2> implements Indexer<E2> {
       throw this.map(e as E);
     }
   }
+  async onTransactionTimeout(
+    itx: IncompleteTransaction,
+    missing: string[],
+    block: StreamerMessage,
+    reason: TransactionTimeoutReason,
+  ) {
+    if (!this.indexer.onTransactionTimeout) return;
+    try {
+      await this.indexer.onTransactionTimeout(itx, missing, block, reason);
+    } catch (e) {
+      throw this.map(e as E);
+    }
+  }
   async processBlockEnd(block: StreamerMessage) {
     if (!this.indexer.processBlockEnd) return;
     try {
@@ -101,10 +132,18 @@ export class MapErrorIndexer<E, E2> implements Indexer<E2> {
       throw this.map(e as E);
     }
   }
-  async finalize() {
+  async onRevert(height: BlockHeight, replacement?: StreamerMessage) {
+    if (!this.indexer.onRevert) return;
+    try {
+      await this.indexer.onRevert(height, replacement);
+    } catch (e) {
+      throw this.map(e as E);
+    }
+  }
+  async finalize(pending?: IncompleteTransaction[]) {
     if (!this.indexer.finalize) return;
     try {
-      await this.indexer.finalize();
+      await this.indexer.finalize(pending);
     } catch (e) {
       throw this.map(e as E);
     }
@@ -142,12 +181,29 @@ export class ParallelMultiIndexer<E = unknown> implements Indexer<E> {
       this.indexers.map((i) => (i.onReceipt ? i.onReceipt(r, itx, block) : undefined)),
     );
   }
+  async onTransactionTimeout(
+    itx: IncompleteTransaction,
+    missing: string[],
+    block: StreamerMessage,
+    reason: TransactionTimeoutReason,
+  ) {
+    await Promise.all(
+      this.indexers.map((i) =>
+        i.onTransactionTimeout ? i.onTransactionTimeout(itx, missing, block, reason) : undefined,
+      ),
+    );
+  }
   async processBlockEnd(block: StreamerMessage) {
     await Promise.all(
       this.indexers.map((i) => (i.processBlockEnd ? i.processBlockEnd(block) : undefined)),
     );
   }
-  async finalize() {
-    await Promise.all(this.indexers.map((i) => (i.finalize ? i.finalize() : undefined)));
+  async onRevert(height: BlockHeight, replacement?: StreamerMessage) {
+    await Promise.all(
+      this.indexers.map((i) => (i.onRevert ? i.onRevert(height, replacement) : undefined)),
+    );
+  }
+  async finalize(pending?: IncompleteTransaction[]) {
+    await Promise.all(this.indexers.map((i) => (i.finalize ? i.finalize(pending) : undefined)));
   }
 }
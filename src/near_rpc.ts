@@ -0,0 +1,204 @@
+import { createHash } from 'node:crypto';
+import type {
+  AccountId,
+  BlockHeight,
+  CryptoHash,
+  ExecutionOutcomeWithIdView,
+  ReceiptView,
+  StreamerMessage,
+} from './types.js';
+import type { MessageProvider } from './message_provider.js';
+import { mapNeardataBlock } from './neardata_mapper.js';
+import { getNetwork, type ChainId } from './networks.js';
+
+// MessageProvider over a plain NEAR JSON-RPC node (localnet, sandbox, or any RPC provider).
+// A block is assembled from `block` and `chunk`, transaction outcomes come from
+// EXPERIMENTAL_tx_status. RPC has no "outcomes executed in block X" call, so receipt outcomes
+// are collected from the status of transactions seen earlier in the stream and kept by block
+// hash until that block is requested. Consequently receipts of transactions included before
+// the first streamed block are not reported. Calls to getMessage are served in order, so
+// ParallelProviderStreamer can still prefetch without losing outcomes.
+
+export type TxWaitUntil = 'NONE' | 'INCLUDED' | 'EXECUTED_OPTIMISTIC' | 'INCLUDED_FINAL' | 'EXECUTED' | 'FINAL';
+
+export interface NearRpcProviderOptions {
+  network?: ChainId; // registry name, lets runIndexer pick the genesis height
+  headers?: Record<string, string>;
+  timeout_ms?: number; // per RPC call; default 30_000
+  // Passed to EXPERIMENTAL_tx_status. Must include execution for outcomes to be complete; default 'FINAL'
+  wait_until?: TxWaitUntil;
+  // Receipt outcomes waiting for their block are dropped after this many blocks; default 1000
+  outcome_cache_blocks?: number;
+}
+
+// JSON-RPC level error; `cause_name` is e.g. UNKNOWN_BLOCK or UNKNOWN_TRANSACTION
+export class NearRpcError extends Error {
+  public method: string;
+  public code?: number;
+  public cause_name?: string;
+  public data?: unknown;
+  constructor(method: string, error: any) {
+    const causeName = error?.cause?.name ?? error?.name;
+    super(`RPC ${method} failed: ${causeName ?? error?.message ?? 'unknown error'}${error?.data ? ` (${JSON.stringify(error.data)})` : ''}`);
+    this.name = 'NearRpcError';
+    this.method = method;
+    this.code = error?.code;
+    this.cause_name = error?.cause?.name;
+    this.data = error?.data;
+  }
+}
+
+interface PendingOutcome {
+  execution_outcome: ExecutionOutcomeWithIdView;
+  receipt?: ReceiptView;
+  tx_hash: CryptoHash;
+  seen_at: BlockHeight;
+}
+
+export class NearRpcProvider implements MessageProvider {
+  public readonly network?: ChainId;
+  private url: string;
+  private options: NearRpcProviderOptions;
+  private nextId = 1;
+  private queue: Promise<unknown> = Promise.resolve();
+  // Receipt outcomes of already seen transactions, by the hash of the block executing them
+  private outcomes = new Map<CryptoHash, PendingOutcome[]>();
+  private shardLayouts = new Map<CryptoHash, any>(); // by epoch_id
+
+  constructor(url: string, options: NearRpcProviderOptions = {}) {
+    this.network = options.network;
+    this.url = url;
+    this.options = options;
+  }
+
+  // Uses the rpc_url of a registered network, e.g. NearRpcProvider.forNetwork('localnet')
+  static forNetwork(network: ChainId, options: Omit<NearRpcProviderOptions, 'network'> = {}) {
+    const { rpc_url } = getNetwork(network);
+    if (!rpc_url) throw new Error(`Network '${network}' has no rpc_url`);
+    return new NearRpcProvider(rpc_url, { ...options, network });
+  }
+
+  async call<T = any>(method: string, params: unknown): Promise<T> {
+    const fetchFn: any = (globalThis as any).fetch;
+    if (!fetchFn) throw new Error('global fetch not available (Node 18+ required)');
+    const res = await fetchFn(this.url, {
+      method: 'POST',
+      headers: { 'content-type': 'application/json', ...(this.options.headers ?? {}) },
+      body: JSON.stringify({ jsonrpc: '2.0', id: this.nextId++, method, params }),
+      signal: AbortSignal.timeout(this.options.timeout_ms ?? 30_000),
+    });
+    if (!res.ok) {
+      const text = await res.text().catch(() => '');
+      throw new Error(`RPC ${method} failed ${res.status}: ${text}`);
+    }
+    const json = await res.json();
+    if (json.error) throw new NearRpcError(method, json.error);
+    return json.result as T;
+  }
+
+  getMessage(height: BlockHeight): Promise<StreamerMessage | null> {
+    const next = this.queue.then(() => this.build(height));
+    this.queue = next.catch(() => {});
+    return next;
+  }
+
+  private async build(height: BlockHeight): Promise<StreamerMessage | null> {
+    let block: any;
+    try {
+      block = await this.call('block', { block_id: height });
+    } catch (e) {
+      // Skipped heights, and heights not produced yet
+      if (e instanceof NearRpcError && e.cause_name === 'UNKNOWN_BLOCK') return null;
+      throw e;
+    }
+    const blockHash: CryptoHash = block.header.hash;
+
+    const chunks = await Promise.all(
+      (block.chunks as any[]).map(async (header) => {
+        // A chunk produced earlier is only repeated in this block's header
+        if (header.height_included !== height) return undefined;
+        return this.call('chunk', { chunk_id: header.chunk_hash });
+      }),
+    );
+
+    const shards: any[] = (block.chunks as any[]).map((header, i) => ({
+      shard_id: header.shard_id,
+      chunk: chunks[i]
+        ? {
+            author: chunks[i].author,
+            header: chunks[i].header,
+            transactions: [],
+            receipts: chunks[i].receipts ?? [],
+          }
+        : undefined,
+      receipt_execution_outcomes: [],
+    }));
+
+    for (const [i, chunk] of chunks.entries()) {
+      for (const tx of chunk?.transactions ?? []) {
+        const status = await this.call('EXPERIMENTAL_tx_status', {
+          tx_hash: tx.hash,
+          sender_account_id: tx.signer_id,
+          wait_until: this.options.wait_until ?? 'FINAL',
+        });
+        shards[i].chunk.transactions.push({
+          transaction: tx,
+          outcome: { execution_outcome: status.transaction_outcome, receipt: null },
+        });
+        const receipts = new Map<CryptoHash, ReceiptView>(
+          (status.receipts ?? []).map((r: ReceiptView) => [r.receipt_id, r]),
+        );
+        for (const outcome of (status.receipts_outcome ?? []) as ExecutionOutcomeWithIdView[]) {
+          const list = this.outcomes.get(outcome.block_hash) ?? [];
+          list.push({ execution_outcome: outcome, receipt: receipts.get(outcome.id), tx_hash: tx.hash, seen_at: height });
+          this.outcomes.set(outcome.block_hash, list);
+        }
+      }
+    }
+
+    const executed = this.outcomes.get(blockHash) ?? [];
+    this.outcomes.delete(blockHash);
+    for (const o of executed) {
+      // Refund receipts are not always part of the tx status
+      const receipt = o.receipt ?? (await this.call<ReceiptView>('EXPERIMENTAL_receipt', { receipt_id: o.execution_outcome.id }));
+      const shardId = await this.shardFor(block, o.execution_outcome.outcome.executor_id);
+      const shard = shards.find((s) => s.shard_id === shardId) ?? shards[0];
+      shard.receipt_execution_outcomes.push({ execution_outcome: o.execution_outcome, receipt, tx_hash: o.tx_hash });
+    }
+
+    const keep = this.options.outcome_cache_blocks ?? 1000;
+    for (const [hash, list] of this.outcomes) {
+      const fresh = list.filter((o) => height - o.seen_at <= keep);
+      if (fresh.length) this.outcomes.set(hash, fresh);
+      else this.outcomes.delete(hash);
+    }
+
+    return mapNeardataBlock({ block, shards });
+  }
+
+  private async shardFor(block: any, account: AccountId): Promise<number> {
+    if (block.chunks.length === 1) return block.chunks[0].shard_id;
+    const epoch: CryptoHash = block.header.epoch_id;
+    let layout = this.shardLayouts.get(epoch);
+    if (!layout) {
+      const config = await this.call('EXPERIMENTAL_protocol_config', { block_id: block.header.hash });
+      layout = config.shard_layout;
+      this.shardLayouts.set(epoch, layout);
+    }
+    return accountToShardId(layout, account);
+  }
+}
+
+// nearcore's ShardLayout::account_id_to_shard_id for the V0, V1 and V2 layouts
+export function accountToShardId(layout: any, account: AccountId): number {
+  if (layout?.V0) {
+    const hash = createHash('sha256').update(account).digest();
+    return Number(hash.readBigUInt64LE(0) % BigInt(layout.V0.num_shards));
+  }
+  const v = layout?.V2 ?? layout?.V1;
+  if (!v) throw new Error(`Unsupported shard layout: ${JSON.stringify(layout)}`);
+  const boundaries: AccountId[] = v.boundary_accounts ?? [];
+  let index = 0;
+  while (index < boundaries.length && account >= boundaries[index]) index++;
+  return layout.V2 ? v.shard_ids[index] : index;
+}
@@ -1,6 +1,15 @@
 import type {
+  AccessKeyView,
+  AccountId,
+  ActionView,
+  Balance,
   ExecutionStatusView,
+  Gas,
   IndexerExecutionOutcomeWithReceipt,
+  IndexerTransactionWithOutcome,
+  Nonce,
+  PublicKey,
+  ReceiptView,
 } from './types.js';
 
 export const MAINNET_GENESIS_BLOCK_HEIGHT = 9_820_210;
@@ -23,6 +32,159 @@ export function isReceiptSuccessful(
   }
 }
 
+// Decoded actions. ActionView mirrors nearcore's JSON; these are tagged by `kind` instead.
+export type FunctionCallArgs =
+  | { kind: 'Json'; value: unknown }
+  | { kind: 'Bytes'; bytes: Uint8Array };
+
+export type DecodedAction =
+  | { kind: 'CreateAccount' }
+  | { kind: 'DeployContract'; code: string }
+  | { kind: 'FunctionCall'; method_name: string; args: FunctionCallArgs; gas: Gas; deposit: Balance }
+  | { kind: 'Transfer'; deposit: Balance }
+  | { kind: 'Stake'; stake: Balance; public_key: PublicKey }
+  | { kind: 'AddKey'; public_key: PublicKey; access_key: AccessKeyView }
+  | { kind: 'DeleteKey'; public_key: PublicKey }
+  | { kind: 'DeleteAccount'; beneficiary_id: AccountId }
+  | {
+      kind: 'Delegate';
+      sender_id: AccountId;
+      receiver_id: AccountId;
+      actions: DecodedAction[];
+      nonce: Nonce;
+      max_block_height: number;
+      public_key: PublicKey;
+      signature: string;
+    }
+  | { kind: 'Unknown'; raw: unknown };
+
+export type ActionKind = DecodedAction['kind'];
+
+// Args are JSON for most contracts; anything that doesn't parse is returned as raw bytes
+export function decodeFunctionCallArgs(base64: string): FunctionCallArgs {
+  const bytes = Buffer.from(base64 ?? '', 'base64');
+  try {
+    return { kind: 'Json', value: JSON.parse(bytes.toString('utf8')) };
+  } catch {
+    return { kind: 'Bytes', bytes: new Uint8Array(bytes) };
+  }
+}
+
+export function functionCallArgsJson<T = unknown>(args: FunctionCallArgs): T | undefined {
+  return args.kind === 'Json' ? (args.value as T) : undefined;
+}
+
+export function decodeAction(action: ActionView): DecodedAction {
+  if (action === 'CreateAccount') return { kind: 'CreateAccount' };
+  if (!action || typeof action !== 'object') return { kind: 'Unknown', raw: action };
+  if ('DeployContract' in action) return { kind: 'DeployContract', code: action.DeployContract.code };
+  if ('FunctionCall' in action) {
+    const fc = action.FunctionCall;
+    return {
+      kind: 'FunctionCall',
+      method_name: fc.method_name,
+      args: decodeFunctionCallArgs(fc.args),
+      gas: fc.gas,
+      deposit: fc.deposit,
+    };
+  }
+  if ('Transfer' in action) return { kind: 'Transfer', deposit: action.Transfer.deposit };
+  if ('Stake' in action) {
+    return { kind: 'Stake', stake: action.Stake.stake, public_key: action.Stake.public_key };
+  }
+  if ('AddKey' in action) {
+    return {
+      kind: 'AddKey',
+      public_key: action.AddKey.public_key,
+      access_key: action.AddKey.access_key,
+    };
+  }
+  if ('DeleteKey' in action) return { kind: 'DeleteKey', public_key: action.DeleteKey.public_key };
+  if ('DeleteAccount' in action) {
+    return { kind: 'DeleteAccount', beneficiary_id: action.DeleteAccount.beneficiary_id };
+  }
+  if ('Delegate' in action) {
+    const d = action.Delegate.delegate_action;
+    return {
+      kind: 'Delegate',
+      sender_id: d.sender_id,
+      receiver_id: d.receiver_id,
+      actions: d.actions.map(decodeAction),
+      nonce: d.nonce,
+      max_block_height: d.max_block_height,
+      public_key: d.public_key,
+      signature: action.Delegate.signature,
+    };
+  }
+  return { kind: 'Unknown', raw: action };
+}
+
+export function decodeTransactionActions(tx: IndexerTransactionWithOutcome): DecodedAction[] {
+  return (tx.transaction.actions ?? []).map(decodeAction);
+}
+
+// Data receipts carry no actions
+export function decodeReceiptActions(
+  receipt: IndexerExecutionOutcomeWithReceipt | ReceiptView,
+): DecodedAction[] {
+  const view = 'execution_outcome' in receipt ? receipt.receipt : receipt;
+  const inner = view.receipt;
+  if (!inner || !('Action' in inner)) return [];
+  return (inner.Action.actions ?? []).map(decodeAction);
+}
+
+export interface FunctionCallInfo {
+  contract_id: AccountId;
+  caller_id: AccountId;
+  method_name: string;
+  args: FunctionCallArgs;
+  gas: Gas;
+  deposit: Balance;
+  // Set when the call was wrapped in a meta-transaction
+  delegated: boolean;
+}
+
+// Flattens the function calls of a transaction or receipt, including the ones inside Delegate actions
+export function getFunctionCalls(
+  item: IndexerTransactionWithOutcome | IndexerExecutionOutcomeWithReceipt,
+): FunctionCallInfo[] {
+  const isTx = 'transaction' in item;
+  const contract_id = isTx ? item.transaction.receiver_id : item.receipt.receiver_id;
+  const caller_id = isTx ? item.transaction.signer_id : item.receipt.predecessor_id;
+  const actions = isTx ? decodeTransactionActions(item) : decodeReceiptActions(item);
+  const out: FunctionCallInfo[] = [];
+  const collect = (list: DecodedAction[], contract: AccountId, caller: AccountId, delegated: boolean) => {
+    for (const a of list) {
+      if (a.kind === 'FunctionCall') {
+        out.push({
+          contract_id: contract,
+          caller_id: caller,
+          method_name: a.method_name,
+          args: a.args,
+          gas: a.gas,
+          deposit: a.deposit,
+          delegated,
+        });
+      } else if (a.kind === 'Delegate') {
+        collect(a.actions, a.receiver_id, a.sender_id, true);
+      }
+    }
+  };
+  collect(actions, contract_id, caller_id, false);
+  return out;
+}
+
+// "method X called on contract Y": returns the matching calls with JSON args (undefined if not JSON)
+export function findFunctionCalls<A = unknown>(
+  item: IndexerTransactionWithOutcome | IndexerExecutionOutcomeWithReceipt,
+  contractId: AccountId,
+  methodName: string,
+): (FunctionCallInfo & { json: A | undefined })[] {
+  return getFunctionCalls(item)
+    .filter((c) => c.contract_id === contractId && c.method_name === methodName)
+    .map((c) => ({ ...c, json: functionCallArgsJson<A>(c.args) }));
+}
+
 // NEP-297 log container
 export interface EventLogData<T> {
   standard: string;
@@ -37,8 +199,25 @@ export function deserializeEventLog<T>(log: string): EventLogData<T> {
   return JSON.parse(log.slice(prefix.length));
 }
 
+// Exact account id, '*.suffix' for any account under suffix (not suffix itself), '*' for any account,
+// or a RegExp that must match the whole id (no need for ^ and $)
+export type AccountPattern = string | RegExp;
+
+export function matchesAccount(pattern: AccountPattern | AccountPattern[], account: AccountId): boolean {
+  if (Array.isArray(pattern)) return pattern.some((p) => matchesAccount(p, account));
+  if (pattern instanceof RegExp) {
+    pattern.lastIndex = 0; // global and sticky patterns keep state between calls
+    const m = pattern.exec(account);
+    return m !== null && m.index === 0 && m[0] === account;
+  }
+  if (pattern === '*') return true;
+  if (pattern.startsWith('*.')) return account.endsWith(pattern.slice(1));
+  return account === pattern;
+}
+
 export const NEP141_EVENT_STANDARD_STRING = 'nep141';
 export const NEP171_EVENT_STANDARD_STRING = 'nep171';
+export const NEP245_EVENT_STANDARD_STRING = 'nep245';
 
 // FT events
 export interface FtMintEvent {
@@ -63,21 +242,21 @@ export interface FtTransferEvent {
 }
 export type FtTransferLog = FtTransferEvent[];
 
+// The contract's FT metadata (NEP-148) changed
+export interface FtMetadataUpdateEvent {
+  memo?: string | null;
+}
+export type FtMetadataUpdateLog = FtMetadataUpdateEvent[];
+
+// Checks standard, event name, major version 1 and the payload (see eventPayloadIssues).
+// Malformed payloads are rejected in 'strict' mode (the default) and accepted in 'lenient' mode;
+// either way they are reported to onIssues.
 export function validateFtEvent(
-  evt: EventLogData<FtMintLog | FtBurnLog | FtTransferLog>,
-  eventName: 'ft_mint' | 'ft_burn' | 'ft_transfer',
+  evt: EventLogData<FtMintLog | FtBurnLog | FtTransferLog | FtMetadataUpdateLog>,
+  eventName: 'ft_mint' | 'ft_burn' | 'ft_transfer' | 'ft_metadata_update',
+  options: EventValidationOptions = {},
 ): boolean {
-  try {
-    const [majorStr] = evt.version.split('.');
-    const major = Number(majorStr);
-    return (
-      evt.standard === NEP141_EVENT_STANDARD_STRING &&
-      evt.event === eventName &&
-      major === 1
-    );
-  } catch {
-    return false;
-  }
+  return validateEvent(evt, NEP141_EVENT_STANDARD_STRING, eventName, options);
 }
 
 export function deserializeTknFarmTransferLog(log: string): FtTransferLog {
@@ -124,21 +303,288 @@ export interface NftContractMetadataUpdateEvent {
 }
 export type NftContractMetadataUpdateLog = NftContractMetadataUpdateEvent[];
 
+// Metadata of the listed tokens changed
+export interface NftMetadataUpdateEvent {
+  token_ids: string[];
+  memo?: string | null;
+}
+export type NftMetadataUpdateLog = NftMetadataUpdateEvent[];
+
 export function validateNftEvent(
   evt: EventLogData<
-    NftMintLog | NftBurnLog | NftTransferLog | NftContractMetadataUpdateLog
+    NftMintLog | NftBurnLog | NftTransferLog | NftContractMetadataUpdateLog | NftMetadataUpdateLog
   >,
-  eventName: 'nft_mint' | 'nft_burn' | 'nft_transfer' | 'contract_metadata_update',
+  eventName: 'nft_mint' | 'nft_burn' | 'nft_transfer' | 'contract_metadata_update' | 'nft_metadata_update',
+  options: EventValidationOptions = {},
 ): boolean {
-  try {
-    const [majorStr] = evt.version.split('.');
-    const major = Number(majorStr);
-    return (
-      evt.standard === NEP171_EVENT_STANDARD_STRING &&
-      evt.event === eventName &&
-      major === 1
-    );
-  } catch {
-    return false;
+  return validateEvent(evt, NEP171_EVENT_STANDARD_STRING, eventName, options);
+}
+
+// MT events (NEP-245). amounts[i] is the amount of token_ids[i]
+export interface MtMintEvent {
+  owner_id: string;
+  token_ids: string[];
+  amounts: string[]; // decimal strings
+  memo?: string | null;
+}
+export type MtMintLog = MtMintEvent[];
+
+export interface MtBurnEvent {
+  owner_id: string;
+  authorized_id?: string | null;
+  token_ids: string[];
+  amounts: string[];
+  memo?: string | null;
+}
+export type MtBurnLog = MtBurnEvent[];
+
+export interface MtTransferEvent {
+  authorized_id?: string | null;
+  old_owner_id: string;
+  new_owner_id: string;
+  token_ids: string[];
+  amounts: string[];
+  memo?: string | null;
+}
+export type MtTransferLog = MtTransferEvent[];
+
+export function validateMtEvent(
+  evt: EventLogData<MtMintLog | MtBurnLog | MtTransferLog>,
+  eventName: 'mt_mint' | 'mt_burn' | 'mt_transfer',
+  options: EventValidationOptions = {},
+): boolean {
+  return validateEvent(evt, NEP245_EVENT_STANDARD_STRING, eventName, options);
+}
+
+// Storage management (NEP-145) defines no events; registrations show up as calls to the contract
+export type StorageManagementCall =
+  | {
+      kind: 'storage_deposit';
+      contract_id: AccountId;
+      caller_id: AccountId;
+      account_id: AccountId; // defaults to the caller
+      registration_only: boolean;
+      deposit: Balance;
+    }
+  | { kind: 'storage_withdraw'; contract_id: AccountId; caller_id: AccountId; amount?: string }
+  | { kind: 'storage_unregister'; contract_id: AccountId; caller_id: AccountId; force: boolean };
+
+// Storage management calls of a transaction or receipt. Calls whose args fail validation are skipped
+export function getStorageManagementCalls(
+  item: IndexerTransactionWithOutcome | IndexerExecutionOutcomeWithReceipt,
+): StorageManagementCall[] {
+  const out: StorageManagementCall[] = [];
+  for (const call of getFunctionCalls(item)) {
+    const args: any = functionCallArgsJson(call.args) ?? {};
+    if (typeof args !== 'object' || args === null) continue;
+    const { contract_id, caller_id } = call;
+    switch (call.method_name) {
+      case 'storage_deposit': {
+        const account_id = args.account_id ?? caller_id;
+        if (!isValidAccountId(account_id)) continue;
+        const registration_only = args.registration_only === true;
+        out.push({ kind: 'storage_deposit', contract_id, caller_id, account_id, registration_only, deposit: call.deposit });
+        break;
+      }
+      case 'storage_withdraw':
+        if (args.amount != null && !isU128String(args.amount)) continue;
+        out.push({ kind: 'storage_withdraw', contract_id, caller_id, amount: args.amount ?? undefined });
+        break;
+      case 'storage_unregister':
+        out.push({ kind: 'storage_unregister', contract_id, caller_id, force: args.force === true });
+        break;
+    }
+  }
+  return out;
+}
+
+// Social DB (social.near). Data is written by `set` calls with args { data: { <account>: { ...tree } } }
+export const SOCIAL_DB_CONTRACT_MAINNET = 'social.near';
+export const SOCIAL_DB_CONTRACT_TESTNET = 'v1.social08.testnet';
+
+// One written key, e.g. { account_id: 'alice.near', key: 'profile/name', value: 'Alice' }.
+// A null value deletes the key; the '' child of a node is stored as the node's own key
+export interface SocialDbEntry {
+  contract_id: AccountId;
+  caller_id: AccountId;
+  account_id: AccountId;
+  key: string;
+  value: string | null;
+}
+
+// Flattens the `set` calls to the given Social DB contract. Subtrees under keys that are not
+// valid account ids, and values that are neither strings, null nor objects, are skipped
+export function getSocialDbSets(
+  item: IndexerTransactionWithOutcome | IndexerExecutionOutcomeWithReceipt,
+  contractId: AccountId = SOCIAL_DB_CONTRACT_MAINNET,
+): SocialDbEntry[] {
+  const out: SocialDbEntry[] = [];
+  for (const call of findFunctionCalls<{ data?: unknown }>(item, contractId, 'set')) {
+    const data = call.json?.data;
+    if (!data || typeof data !== 'object') continue;
+    for (const [account_id, tree] of Object.entries(data)) {
+      if (!isValidAccountId(account_id)) continue;
+      const walk = (node: unknown, path: string[]) => {
+        if (node === null || typeof node === 'string') {
+          out.push({ contract_id: contractId, caller_id: call.caller_id, account_id, key: path.join('/'), value: node });
+        } else if (typeof node === 'object' && !Array.isArray(node)) {
+          for (const [k, child] of Object.entries(node)) walk(child, k === '' ? path : [...path, k]);
+        }
+      };
+      walk(tree, []);
+    }
+  }
+  return out;
+}
+
+// Payload validation
+
+export type EventValidationMode = 'strict' | 'lenient';
+
+export interface EventValidationOptions {
+  mode?: EventValidationMode; // default 'strict'
+  onIssues?(issues: EventValidationIssue[], evt: EventLogData<unknown>): void;
+}
+
+// `path` points into the event, e.g. 'data[0].amount'
+export interface EventValidationIssue {
+  path: string;
+  message: string;
+  value?: unknown;
+}
+
+export class EventValidationError extends Error {
+  public standard: string;
+  public event: string;
+  public issues: EventValidationIssue[];
+  constructor(evt: EventLogData<unknown>, issues: EventValidationIssue[]) {
+    super(`Invalid ${evt.standard} ${evt.event} event: ${issues.map((i) => `${i.path}: ${i.message}`).join('; ')}`);
+    this.name = 'EventValidationError';
+    this.standard = evt.standard;
+    this.event = evt.event;
+    this.issues = issues;
   }
 }
+
+// Throws EventValidationError if eventPayloadIssues finds anything
+export function assertValidEvent<T>(evt: EventLogData<T>): EventLogData<T> {
+  const issues = eventPayloadIssues(evt);
+  if (issues.length) throw new EventValidationError(evt, issues);
+  return evt;
+}
+
+// nearcore's account id rules: 2-64 chars of lowercase alphanumerics separated by single '-', '_' or '.'
+const ACCOUNT_ID_RE = /^(([a-z\d]+[-_])*[a-z\d]+\.)*([a-z\d]+[-_])*[a-z\d]+$/;
+
+export function isValidAccountId(account: unknown): account is AccountId {
+  return typeof account === 'string' && account.length >= 2 && account.length <= 64 && ACCOUNT_ID_RE.test(account);
+}
+
+const U128_MAX = (1n << 128n) - 1n;
+
+// Decimal string of a u128, as NEAR serializes Balance and U128
+export function isU128String(value: unknown): value is string {
+  return typeof value === 'string' && /^\d{1,39}$/.test(value) && BigInt(value) <= U128_MAX;
+}
+
+type FieldRule = 'account' | 'optional_account' | 'u128' | 'u128_list' | 'memo' | 'token_ids';
+
+// Payload fields of the known events; unlisted fields are allowed
+const EVENT_SCHEMAS: Record<string, Record<string, Record<string, FieldRule>>> = {
+  [NEP141_EVENT_STANDARD_STRING]: {
+    ft_mint: { owner_id: 'account', amount: 'u128', memo: 'memo' },
+    ft_burn: { owner_id: 'account', amount: 'u128', memo: 'memo' },
+    ft_transfer: { old_owner_id: 'account', new_owner_id: 'account', amount: 'u128', memo: 'memo' },
+    ft_metadata_update: { memo: 'memo' },
+  },
+  [NEP171_EVENT_STANDARD_STRING]: {
+    nft_mint: { owner_id: 'account', token_ids: 'token_ids', memo: 'memo' },
+    nft_burn: { owner_id: 'account', authorized_id: 'optional_account', token_ids: 'token_ids', memo: 'memo' },
+    nft_transfer: {
+      authorized_id: 'optional_account',
+      old_owner_id: 'account',
+      new_owner_id: 'account',
+      token_ids: 'token_ids',
+      memo: 'memo',
+    },
+    contract_metadata_update: { memo: 'memo' },
+    nft_metadata_update: { token_ids: 'token_ids', memo: 'memo' },
+  },
+  [NEP245_EVENT_STANDARD_STRING]: {
+    mt_mint: { owner_id: 'account', token_ids: 'token_ids', amounts: 'u128_list', memo: 'memo' },
+    mt_burn: {
+      owner_id: 'account',
+      authorized_id: 'optional_account',
+      token_ids: 'token_ids',
+      amounts: 'u128_list',
+      memo: 'memo',
+    },
+    mt_transfer: {
+      authorized_id: 'optional_account',
+      old_owner_id: 'account',
+      new_owner_id: 'account',
+      token_ids: 'token_ids',
+      amounts: 'u128_list',
+      memo: 'memo',
+    },
+  },
+};
+
+// Structural problems of a known event's payload: `data` must be an array of objects whose
+// fields have the types of the standard. Other events have no schema and pass.
+export function eventPayloadIssues(evt: EventLogData<unknown>): EventValidationIssue[] {
+  const schema = EVENT_SCHEMAS[evt.standard]?.[evt.event];
+  if (!schema) return [];
+  if (!Array.isArray(evt.data)) return [{ path: 'data', message: 'expected an array', value: evt.data }];
+  const issues: EventValidationIssue[] = [];
+  for (const [i, entry] of evt.data.entries()) {
+    if (entry === null || typeof entry !== 'object' || Array.isArray(entry)) {
+      issues.push({ path: `data[${i}]`, message: 'expected an object', value: entry });
+      continue;
+    }
+    for (const [field, rule] of Object.entries(schema)) {
+      const message = fieldIssue(rule, (entry as Record<string, unknown>)[field]);
+      if (message) issues.push({ path: `data[${i}].${field}`, message, value: (entry as any)[field] });
+    }
+    const { token_ids, amounts } = entry as Record<string, unknown>;
+    if (schema.amounts && Array.isArray(token_ids) && Array.isArray(amounts) && token_ids.length !== amounts.length) {
+      issues.push({ path: `data[${i}].amounts`, message: 'expected one amount per token id', value: amounts });
+    }
+  }
+  return issues;
+}
+
+function fieldIssue(rule: FieldRule, value: unknown): string | undefined {
+  switch (rule) {
+    case 'account':
+      return isValidAccountId(value) ? undefined : 'expected a valid account id';
+    case 'optional_account':
+      return value == null || isValidAccountId(value) ? undefined : 'expected a valid account id or null';
+    case 'u128':
+      return isU128String(value) ? undefined : 'expected a u128 decimal string';
+    case 'u128_list':
+      return Array.isArray(value) && value.length > 0 && value.every(isU128String)
+        ? undefined
+        : 'expected a non-empty array of u128 decimal strings';
+    case 'memo':
+      return value == null || typeof value === 'string' ? undefined : 'expected a string or null';
+    case 'token_ids':
+      return Array.isArray(value) && value.length > 0 && value.every((t) => typeof t === 'string')
+        ? undefined
+        : 'expected a non-empty array of strings';
+  }
+}
+
+function validateEvent(
+  evt: EventLogData<unknown>,
+  standard: string,
+  eventName: string,
+  options: EventValidationOptions,
+): boolean {
+  if (evt?.standard !== standard || evt.event !== eventName || typeof evt.version !== 'string') return false;
+  if (Number(evt.version.split('.')[0]) !== 1) return false;
+  const issues = eventPayloadIssues(evt);
+  if (!issues.length) return true;
+  options.onIssues?.(issues, evt);
+  return (options.mode ?? 'strict') === 'lenient';
+}
@@ -1,8 +1,11 @@
 import type { BlockHeight, StreamerMessage } from './types.js';
-import type { MessageStreamer } from './indexer.js';
+import type { MessageStreamer, OptimisticOptions } from './indexer.js';
+import { mapNeardataBlock } from './neardata_mapper.js';
+import { sleep } from './async_utils.js';
+import { getNetwork, type ChainId } from './networks.js';
 
+export type { ChainId };
 export type Finality = 'Final' | 'Optimistic';
-export type ChainId = 'mainnet' | 'testnet';
 
 export interface FetcherConfig {
   chain_id: ChainId;
@@ -15,41 +18,126 @@ export type Fetcher = (
   height: BlockHeight,
 ) => Promise<StreamerMessage | null>;
 
+// Following the chain head. A null from the fetcher can mean a skipped height or a block
+// that is not produced (or not served) yet; only heights sufficiently below the head are skipped.
+export interface LiveTailOptions {
+  // Wait between head checks once caught up, and between retries of a not-yet-available height
+  poll_interval_ms?: number; // default 1000
+  // A null for a height less than this many blocks below the head is retried instead of skipped
+  missing_block_depth?: number; // default 3
+  // Source of the current head; defaults to fetchLastBlockHeight for the configured chain and finality
+  head?: (cfg: FetcherConfig) => Promise<BlockHeight>;
+}
+
 export class NeardataProvider implements MessageStreamer {
+  public readonly network: ChainId;
   private cfg: FetcherConfig;
   private fetcher: Fetcher;
-  constructor(cfg: FetcherConfig, fetcher: Fetcher) {
+  private tail?: LiveTailOptions;
+  constructor(cfg: FetcherConfig, fetcher: Fetcher, tail?: LiveTailOptions) {
+    this.network = cfg.chain_id;
     this.cfg = cfg;
     this.fetcher = fetcher;
+    this.tail = tail;
   }
-  static mainnet(fetcher: Fetcher) {
-    return new NeardataProvider({ chain_id: 'mainnet', finality: 'Final' }, fetcher);
+  static mainnet(fetcher: Fetcher, tail?: LiveTailOptions) {
+    return new NeardataProvider({ chain_id: 'mainnet', finality: 'Final' }, fetcher, tail);
   }
-  static testnet(fetcher: Fetcher) {
-    return new NeardataProvider({ chain_id: 'testnet', finality: 'Final' }, fetcher);
+  static testnet(fetcher: Fetcher, tail?: LiveTailOptions) {
+    return new NeardataProvider({ chain_id: 'testnet', finality: 'Final' }, fetcher, tail);
   }
 
-  async stream(first: BlockHeight, lastExclusive?: BlockHeight) {
+  async stream(first: BlockHeight, lastExclusive?: BlockHeight, signal?: AbortSignal) {
     // Wrap a fetcher into the generic MessageStreamer contract
     async function* gen(this: NeardataProvider) {
       const end = lastExclusive ?? Number.MAX_SAFE_INTEGER;
       for (let h = first; h < end; h++) {
+        if (signal?.aborted) return;
         const msg = await this.fetcher(this.cfg, h);
         if (msg) yield msg;
       }
     }
-    const receiver = gen.call(this);
+    const receiver = this.tail ? this.tailGen(this.tail, first, lastExclusive, signal) : gen.call(this);
     const handle = Promise.resolve();
     return { handle, receiver };
   }
+
+  private async *tailGen(
+    tail: LiveTailOptions,
+    first: BlockHeight,
+    lastExclusive?: BlockHeight,
+    signal?: AbortSignal,
+  ): AsyncGenerator<StreamerMessage> {
+    const pollMs = tail.poll_interval_ms ?? 1000;
+    const depth = tail.missing_block_depth ?? 3;
+    const headers = this.cfg.user_agent ? { 'user-agent': this.cfg.user_agent } : undefined;
+    const getHead =
+      tail.head ??
+      ((cfg: FetcherConfig) => fetchLastBlockHeight(cfg.chain_id, cfg.finality ?? 'Final', headers));
+    const end = lastExclusive ?? Number.MAX_SAFE_INTEGER;
+
+    let head = -1;
+    for (let h = first; h < end; h++) {
+      while (!signal?.aborted) {
+        if (h > head) {
+          head = await getHead(this.cfg);
+          if (h > head) {
+            // Not produced yet
+            await sleep(pollMs, signal);
+            continue;
+          }
+        }
+        const msg = await this.fetcher(this.cfg, h);
+        if (msg) {
+          yield msg;
+          break;
+        }
+        if (head - h >= depth) break; // skipped by the chain
+        await sleep(pollMs, signal);
+        head = await getHead(this.cfg);
+      }
+      if (signal?.aborted) return;
+    }
+  }
 }
 
 // --- HTTP fetcher helpers ---
 
+// Non-2xx, non-404 response from a neardata endpoint
+export class NeardataHttpError extends Error {
+  public status: number;
+  public url: string;
+  public body: string;
+  // Parsed Retry-After header, if the server sent one
+  public retry_after_ms?: number;
+  constructor(status: number, url: string, body: string, retry_after_ms?: number) {
+    super(`Neardata fetch failed ${status}: ${body}`);
+    this.name = 'NeardataHttpError';
+    this.status = status;
+    this.url = url;
+    this.body = body;
+    this.retry_after_ms = retry_after_ms;
+  }
+
+  static async fromResponse(res: any, url: string): Promise<NeardataHttpError> {
+    const text = await res.text().catch(() => '');
+    return new NeardataHttpError(res.status, url, text, parseRetryAfter(res.headers?.get?.('retry-after')));
+  }
+}
+
+// Retry-After is either delay-seconds or an HTTP date
+export function parseRetryAfter(value: string | null | undefined): number | undefined {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
 export function baseUrlForChain(chain: ChainId): string {
-  return chain === 'mainnet'
-    ? 'https://mainnet.neardata.xyz/'
-    : 'https://testnet.neardata.xyz/';
+  const network = getNetwork(chain);
+  if (!network.base_url) throw new Error(`Network '${chain}' has no neardata server; use NearRpcProvider`);
+  return network.base_url;
 }
 
 export interface HttpFetcherOptions {
@@ -59,8 +147,10 @@ export interface HttpFetcherOptions {
   // - (h, finality) => `v0/block/${h}` (Final) or `v0/block_opt/${h}` (Optimistic)
   pathBuilder?: (height: BlockHeight) => string;
   // If the endpoint JSON shape differs from StreamerMessage,
-  // provide a mapper to convert JSON -> StreamerMessage
+  // provide a mapper to convert JSON -> StreamerMessage (e.g. mapNeardataBlock for neardata.xyz)
   map?: (json: any) => StreamerMessage;
+  // Abort a request that takes longer than this; the fetcher then throws a TimeoutError
+  timeout_ms?: number;
 }
 
 export function makeNeardataHttpFetcher(opts: HttpFetcherOptions = {}): Fetcher {
@@ -69,6 +159,7 @@ export function makeNeardataHttpFetcher(opts: HttpFetcherOptions = {}): Fetcher
     headers,
     pathBuilder,
     map,
+    timeout_ms,
   } = opts;
 
   return async (cfg: FetcherConfig, height: BlockHeight) => {
@@ -78,22 +169,39 @@ export function makeNeardataHttpFetcher(opts: HttpFetcherOptions = {}): Fetcher
     const fetchFn: any = (globalThis as any).fetch;
     if (!fetchFn) throw new Error('global fetch not available (Node 18+ required)');
     const hdrs = { ...(headers ?? {}), ...(cfg.user_agent ? { 'user-agent': cfg.user_agent } : {}) } as any;
-    const res = await fetchFn(url, { headers: hdrs });
+    const signal = timeout_ms !== undefined ? AbortSignal.timeout(timeout_ms) : undefined;
+    const res = await fetchFn(url, { headers: hdrs, signal });
     if (res.status === 404) return null;
-    if (!res.ok) {
-      const text = await res.text().catch(() => '');
-      throw new Error(`Neardata fetch failed ${res.status}: ${text}`);
-    }
+    if (!res.ok) throw await NeardataHttpError.fromResponse(res, url);
     const json = await res.json();
+    // neardata answers `null` for heights that were skipped by the chain
+    if (json === null) return null;
     return map ? map(json) : (json as StreamerMessage);
   };
 }
 
+// Uses mapNeardataBlock unless another `map` is given
 export function makeNeardataHttpFetcherFromChain(
   chain: ChainId,
   options: Omit<HttpFetcherOptions, 'baseUrl'> = {},
 ): Fetcher {
-  return makeNeardataHttpFetcher({ baseUrl: baseUrlForChain(chain), ...options });
+  return makeNeardataHttpFetcher({
+    baseUrl: baseUrlForChain(chain),
+    ...options,
+    map: options.map ?? mapNeardataBlock,
+  });
+}
+
+// For runIndexer's `optimistic` option while streaming with finality 'Optimistic'
+export function makeNeardataOptimisticOptions(
+  chain: ChainId,
+  fetcher: Fetcher = makeNeardataHttpFetcherFromChain(chain),
+): OptimisticOptions {
+  const cfg: FetcherConfig = { chain_id: chain, finality: 'Final' };
+  return {
+    getFinalHead: () => fetchLastBlockHeight(chain, 'Final'),
+    getFinalBlock: (height) => fetcher(cfg, height),
+  };
 }
 
 // Try multiple path patterns (e.g., ['streamer/block', 'block', 'blocks']) and return the first success
@@ -115,11 +223,9 @@ export function makeNeardataHttpFetcherMulti(
         if (res.status === 404) {
           continue; // try next pattern
         }
-        if (!res.ok) {
-          const text = await res.text().catch(() => '');
-          throw new Error(`Neardata fetch failed ${res.status}: ${text}`);
-        }
+        if (!res.ok) throw await NeardataHttpError.fromResponse(res, url);
         const json = await res.json();
+        if (json === null) return null;
         return map ? map(json) : (json as StreamerMessage);
       } catch (e) {
         lastErr = e;
@@ -138,8 +244,9 @@ export async function fetchFirstBlockHeight(chain: ChainId, headers?: Record<str
   const base = baseUrlForChain(chain).replace(/\/$/, '');
   const fetchFn: any = (globalThis as any).fetch;
   if (!fetchFn) throw new Error('global fetch not available (Node 18+ required)');
-  const res = await fetchFn(`${base}/v0/first_block`, { headers, redirect: 'follow' as any });
-  if (!res.ok) throw new Error(`first_block failed ${res.status}`);
+  const url = `${base}/v0/first_block`;
+  const res = await fetchFn(url, { headers, redirect: 'follow' as any });
+  if (!res.ok) throw await NeardataHttpError.fromResponse(res, url);
   const json = await res.json();
   // Expect json.block.header.height
   return json?.block?.header?.height ?? Number(json.height ?? json);
@@ -150,12 +257,24 @@ export async function fetchLastBlockHeight(
   finality: Finality = 'Final',
   headers?: Record<string, string>,
 ): Promise<number> {
-  const base = baseUrlForChain(chain).replace(/\/$/, '');
+  return fetchLastBlockHeightFrom(baseUrlForChain(chain), finality, headers);
+}
+
+// Same as fetchLastBlockHeight for any neardata-compatible server, e.g. a mirror
+export async function fetchLastBlockHeightFrom(
+  baseUrl: string,
+  finality: Finality = 'Final',
+  headers?: Record<string, string>,
+  timeout_ms?: number,
+): Promise<number> {
+  const base = baseUrl.replace(/\/$/, '');
   const path = finality === 'Optimistic' ? 'v0/last_block/optimistic' : 'v0/last_block/final';
   const fetchFn: any = (globalThis as any).fetch;
   if (!fetchFn) throw new Error('global fetch not available (Node 18+ required)');
-  const res = await fetchFn(`${base}/${path}`, { headers, redirect: 'follow' as any });
-  if (!res.ok) throw new Error(`last_block failed ${res.status}`);
+  const url = `${base}/${path}`;
+  const signal = timeout_ms !== undefined ? AbortSignal.timeout(timeout_ms) : undefined;
+  const res = await fetchFn(url, { headers, redirect: 'follow' as any, signal });
+  if (!res.ok) throw await NeardataHttpError.fromResponse(res, url);
   const json = await res.json();
   return json?.block?.header?.height ?? Number(json.height ?? json);
 }
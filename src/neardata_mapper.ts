@@ -0,0 +1,80 @@
+import type {
+  ExecutionStatusView,
+  IndexerExecutionOutcomeWithReceipt,
+  IndexerShard,
+  IndexerTransactionWithOutcome,
+  StreamerMessage,
+} from './types.js';
+
+// Mapping from the raw neardata.xyz JSON (nearcore's serde format) into StreamerMessage.
+// Fields we don't remodel are passed through untouched.
+
+// nearcore serializes ExecutionStatusView as an externally tagged enum:
+// "Unknown" | { "Failure": {...} } | { "SuccessValue": "<base64>" } | { "SuccessReceiptId": "<id>" }
+export function mapExecutionStatus(raw: any): ExecutionStatusView {
+  if (raw === 'Unknown' || raw === null || raw === undefined) return { kind: 'Unknown' };
+  if (typeof raw !== 'object') return { kind: 'Unknown' };
+  // Already normalized (e.g. produced by a mock or mapped twice)
+  if (typeof raw.kind === 'string') return raw as ExecutionStatusView;
+  if ('Failure' in raw) return { kind: 'Failure', error: raw.Failure };
+  if ('SuccessValue' in raw) return { kind: 'SuccessValue', value: raw.SuccessValue ?? '' };
+  if ('SuccessReceiptId' in raw) return { kind: 'SuccessReceiptId', id: raw.SuccessReceiptId };
+  if ('Unknown' in raw) return { kind: 'Unknown' };
+  return { kind: 'Unknown' };
+}
+
+function mapOutcome(raw: any) {
+  const outcome = raw?.outcome ?? {};
+  return {
+    ...raw,
+    outcome: {
+      ...outcome,
+      status: mapExecutionStatus(outcome.status),
+      receipt_ids: outcome.receipt_ids ?? [],
+      logs: outcome.logs ?? [],
+    },
+  };
+}
+
+export function mapNeardataTransaction(raw: any): IndexerTransactionWithOutcome {
+  return {
+    ...raw,
+    outcome: {
+      ...raw.outcome,
+      execution_outcome: mapOutcome(raw.outcome?.execution_outcome),
+    },
+  } as IndexerTransactionWithOutcome;
+}
+
+export function mapNeardataReceiptOutcome(raw: any): IndexerExecutionOutcomeWithReceipt {
+  return {
+    ...raw,
+    execution_outcome: mapOutcome(raw.execution_outcome),
+  } as IndexerExecutionOutcomeWithReceipt;
+}
+
+export function mapNeardataShard(raw: any): IndexerShard {
+  const chunk = raw.chunk
+    ? {
+        ...raw.chunk,
+        transactions: (raw.chunk.transactions ?? []).map(mapNeardataTransaction),
+      }
+    : undefined;
+  return {
+    ...raw,
+    chunk,
+    receipt_execution_outcomes: (raw.receipt_execution_outcomes ?? []).map(
+      mapNeardataReceiptOutcome,
+    ),
+  } as IndexerShard;
+}
+
+export function mapNeardataBlock(json: any): StreamerMessage {
+  if (!json || typeof json !== 'object' || !json.block) {
+    throw new Error('Unexpected neardata block JSON: missing `block`');
+  }
+  return {
+    ...json,
+    shards: (json.shards ?? []).map(mapNeardataShard),
+  } as StreamerMessage;
+}
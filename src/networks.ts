@@ -0,0 +1,68 @@
+import type { BlockHeight } from './types.js';
+import { MAINNET_GENESIS_BLOCK_HEIGHT, TESTNET_GENESIS_BLOCK_HEIGHT } from './near_utils.js';
+
+// Registry of known networks. Fetchers look up base URLs here, and runIndexer takes the
+// genesis height of the streamer's network, so a chain name is all callers need to pass.
+// Custom networks (a private mirror, a long-lived localnet) can be added with registerNetwork.
+
+// The built-in names, plus any name added to the registry
+export type ChainId = 'mainnet' | 'testnet' | 'localnet' | 'sandbox' | (string & {});
+
+export interface NetworkConfig {
+  name: ChainId;
+  base_url?: string; // neardata server; none for localnet and sandbox
+  genesis_block_height: BlockHeight;
+  mirrors?: string[]; // further neardata-compatible servers, tried after base_url
+  rpc_url?: string;
+}
+
+export class UnknownNetworkError extends Error {
+  public network: string;
+  constructor(network: string) {
+    super(`Unknown network '${network}'; add it with registerNetwork()`);
+    this.name = 'UnknownNetworkError';
+    this.network = network;
+  }
+}
+
+const networks = new Map<string, NetworkConfig>();
+
+// Adds a network or replaces the entry with the same name
+export function registerNetwork(network: NetworkConfig): NetworkConfig {
+  networks.set(network.name, network);
+  return network;
+}
+
+export function getNetwork(name: ChainId): NetworkConfig {
+  const network = networks.get(name);
+  if (!network) throw new UnknownNetworkError(name);
+  return network;
+}
+
+export function listNetworks(): NetworkConfig[] {
+  return [...networks.values()];
+}
+
+registerNetwork({
+  name: 'mainnet',
+  base_url: 'https://mainnet.neardata.xyz/',
+  genesis_block_height: MAINNET_GENESIS_BLOCK_HEIGHT,
+  rpc_url: 'https://rpc.mainnet.near.org',
+});
+registerNetwork({
+  name: 'testnet',
+  base_url: 'https://testnet.neardata.xyz/',
+  genesis_block_height: TESTNET_GENESIS_BLOCK_HEIGHT,
+  rpc_url: 'https://rpc.testnet.near.org',
+});
+// `neard localnet` and near-sandbox both start from height 0 and serve RPC on port 3030 by default
+registerNetwork({
+  name: 'localnet',
+  genesis_block_height: 0,
+  rpc_url: 'http://127.0.0.1:3030',
+});
+registerNetwork({
+  name: 'sandbox',
+  genesis_block_height: 0,
+  rpc_url: 'http://127.0.0.1:3030',
+});
@@ -0,0 +1,109 @@
+import type { BlockHeight } from './types.js';
+import type { MessageProvider } from './message_provider.js';
+import { getNetwork, type ChainId } from './networks.js';
+import { fetchLastBlockHeight, makeNeardataHttpFetcherFromChain, type Fetcher } from './neardata.js';
+
+// Resolving wall-clock times to block heights, for ranges like "all of 2026-09-01 UTC".
+
+// Date, ISO 8601 string ('2026-09-01' is midnight UTC), or Unix milliseconds
+export type TimeInput = Date | string | number;
+
+export function toTimestampNanos(time: TimeInput): bigint {
+  const ms = time instanceof Date ? time.getTime() : typeof time === 'number' ? time : Date.parse(time);
+  if (!Number.isFinite(ms)) throw new Error(`Invalid time: ${String(time)}`);
+  return BigInt(Math.round(ms)) * 1_000_000n;
+}
+
+export interface BlockTimestampResolverOptions {
+  // Lowest height searched; defaults to the genesis of the provider's network, or 0
+  genesis_block_height?: BlockHeight;
+  // Highest height searched, usually the final head
+  head(): Promise<BlockHeight>;
+  // Consecutive heights without a block skipped while probing; default 100
+  max_skipped_blocks?: number;
+}
+
+interface ProbedBlock {
+  height: BlockHeight;
+  timestamp_nanosec: bigint;
+}
+
+// Binary search over block headers. Fetched headers and resolved times are cached, so
+// resolving the start and end of a day costs about 2 * log2(chain length) block fetches at most.
+export class BlockTimestampResolver {
+  private provider: MessageProvider;
+  private options: BlockTimestampResolverOptions;
+  // Block headers by height; null for skipped heights
+  private blocks = new Map<BlockHeight, Promise<ProbedBlock | null>>();
+  private resolved = new Map<bigint, Promise<BlockHeight | undefined>>();
+
+  constructor(provider: MessageProvider, options: BlockTimestampResolverOptions) {
+    this.provider = provider;
+    this.options = options;
+  }
+
+  // neardata over the given fetcher (by default the plain HTTP one), bounded by the final head
+  static forChain(chain: ChainId, fetcher: Fetcher = makeNeardataHttpFetcherFromChain(chain)) {
+    const cfg = { chain_id: chain, finality: 'Final' as const };
+    return new BlockTimestampResolver(
+      { network: chain, getMessage: (height) => fetcher(cfg, height) },
+      { head: () => fetchLastBlockHeight(chain, 'Final') },
+    );
+  }
+
+  // Height of the first block with a timestamp at or after `time`; undefined if the head is older
+  heightAt(time: TimeInput): Promise<BlockHeight | undefined> {
+    const ns = toTimestampNanos(time);
+    let p = this.resolved.get(ns);
+    if (!p) {
+      p = this.search(ns);
+      p.catch(() => this.resolved.delete(ns)); // do not cache failures
+      this.resolved.set(ns, p);
+    }
+    return p;
+  }
+
+  private async search(ns: bigint): Promise<BlockHeight | undefined> {
+    const genesis =
+      this.options.genesis_block_height ??
+      (this.provider.network !== undefined ? getNetwork(this.provider.network).genesis_block_height : 0);
+    const head = await this.options.head();
+    const last = await this.probe(head, head);
+    if (!last || last.timestamp_nanosec < ns) return undefined;
+    const first = await this.probe(genesis, head);
+    if (first && first.timestamp_nanosec >= ns) return first.height;
+
+    // The first block at or after `lo` is before `ns`, the one at or after `hi` is not
+    let lo = genesis;
+    let hi = head;
+    while (hi - lo > 1) {
+      const mid = lo + Math.floor((hi - lo) / 2);
+      const b = await this.probe(mid, hi);
+      if (b && b.timestamp_nanosec < ns) lo = b.height;
+      else hi = mid;
+    }
+    return (await this.probe(hi, head))?.height ?? head;
+  }
+
+  // First block in [height, limit], looking at most max_skipped_blocks heights ahead
+  private async probe(height: BlockHeight, limit: BlockHeight): Promise<ProbedBlock | null> {
+    const maxSkipped = this.options.max_skipped_blocks ?? 100;
+    for (let h = height; h <= Math.min(limit, height + maxSkipped); h++) {
+      const b = await this.blockAt(h);
+      if (b) return b;
+    }
+    return null;
+  }
+
+  private blockAt(height: BlockHeight): Promise<ProbedBlock | null> {
+    let p = this.blocks.get(height);
+    if (!p) {
+      p = this.provider.getMessage(height).then((msg) =>
+        msg ? { height, timestamp_nanosec: BigInt(msg.block.header.timestamp_nanosec) } : null,
+      );
+      p.catch(() => this.blocks.delete(height));
+      this.blocks.set(height, p);
+    }
+    return p;
+  }
+}
@@ -1,58 +1,306 @@
-// Minimal public types used by the orchestrator. Extend as needed.
+// Public types used by the orchestrator. They follow the JSON served by neardata.xyz
+// (nearcore's views), after statuses are normalized by mapNeardataBlock.
+// In block and chunk headers, the fields every source serves and this library reads (heights,
+// hashes, epoch ids, timestamps, gas, last_final_block) are required. Merkle roots, signatures,
+// approvals and other consensus-only fields are optional so that synthetic sources can omit them.
 
 export type BlockHeight = number;
 export type BlockHeightDelta = number;
 
+export type AccountId = string;
+export type CryptoHash = string; // base58
+export type PublicKey = string; // e.g. "ed25519:..."
+export type Signature = string;
+export type Balance = string; // yoctoNEAR as decimal string
+export type Gas = number;
+export type Nonce = number;
+
+// --- Errors (TxExecutionError) ---
+
+export type FunctionCallErrorView =
+  | { CompilationError: unknown }
+  | { LinkError: { msg: string } }
+  | { MethodResolveError: unknown }
+  | { WasmTrap: unknown }
+  | { WasmUnknownError: unknown }
+  | { HostError: unknown }
+  | { ExecutionError: string };
+
+export type ActionErrorKind =
+  | { AccountAlreadyExists: { account_id: AccountId } }
+  | { AccountDoesNotExist: { account_id: AccountId } }
+  | { CreateAccountOnlyByRegistrar: { account_id: AccountId; registrar_account_id: AccountId; predecessor_id: AccountId } }
+  | { CreateAccountNotAllowed: { account_id: AccountId; predecessor_id: AccountId } }
+  | { ActorNoPermission: { account_id: AccountId; actor_id: AccountId } }
+  | { DeleteKeyDoesNotExist: { account_id: AccountId; public_key: PublicKey } }
+  | { AddKeyAlreadyExists: { account_id: AccountId; public_key: PublicKey } }
+  | { DeleteAccountStaking: { account_id: AccountId } }
+  | { LackBalanceForState: { account_id: AccountId; amount: Balance } }
+  | { TriesToUnstake: { account_id: AccountId } }
+  | { TriesToStake: { account_id: AccountId; stake: Balance; locked: Balance; balance: Balance } }
+  | { InsufficientStake: { account_id: AccountId; stake: Balance; minimum_stake: Balance } }
+  | { FunctionCallError: FunctionCallErrorView }
+  | { NewReceiptValidationError: unknown }
+  | { OnlyImplicitAccountCreationAllowed: { account_id: AccountId } }
+  | { DeleteAccountWithLargeState: { account_id: AccountId } }
+  | { DelegateActionInvalidSignature: unknown }
+  | { DelegateActionSenderDoesNotMatchTxReceiver: { sender_id: AccountId; receiver_id: AccountId } }
+  | { DelegateActionExpired: unknown }
+  | { DelegateActionAccessKeyError: unknown }
+  | { DelegateActionInvalidNonce: { delegate_nonce: Nonce; ak_nonce: Nonce } }
+  | { DelegateActionNonceTooLarge: { delegate_nonce: Nonce; upper_bound: Nonce } }
+  | Record<string, unknown>; // newer protocol versions
+
+export interface ActionError {
+  index?: number | null;
+  kind: ActionErrorKind;
+}
+
+export type TxExecutionError =
+  | { ActionError: ActionError }
+  | { InvalidTxError: unknown };
+
 export type ExecutionStatusView =
-  | { kind: 'Failure'; error?: unknown }
+  | { kind: 'Failure'; error?: TxExecutionError }
   | { kind: 'SuccessValue'; value?: string }
   | { kind: 'SuccessReceiptId'; id: string }
   | { kind: 'Unknown' };
 
-export interface IndexerExecutionOutcomeWithReceipt {
-  execution_outcome: {
-    outcome: {
-      status: ExecutionStatusView;
-      receipt_ids: string[];
-      logs: string[];
+// --- Actions ---
+
+export type AccessKeyPermissionView =
+  | 'FullAccess'
+  | {
+      FunctionCall: {
+        allowance?: Balance | null;
+        receiver_id: AccountId;
+        method_names: string[];
+      };
     };
-  };
-  receipt: {
-    receipt_id: string;
-    receiver_id: string;
-  };
+
+export interface AccessKeyView {
+  nonce: Nonce;
+  permission: AccessKeyPermissionView;
+}
+
+export interface FunctionCallActionView {
+  method_name: string;
+  args: string; // base64
+  gas: Gas;
+  deposit: Balance;
+}
+
+export type NonDelegateActionView =
+  | 'CreateAccount'
+  | { DeployContract: { code: string } } // base64 or hash, depending on the source
+  | { FunctionCall: FunctionCallActionView }
+  | { Transfer: { deposit: Balance } }
+  | { Stake: { stake: Balance; public_key: PublicKey } }
+  | { AddKey: { public_key: PublicKey; access_key: AccessKeyView } }
+  | { DeleteKey: { public_key: PublicKey } }
+  | { DeleteAccount: { beneficiary_id: AccountId } };
+
+export interface DelegateActionView {
+  sender_id: AccountId;
+  receiver_id: AccountId;
+  actions: NonDelegateActionView[];
+  nonce: Nonce;
+  max_block_height: BlockHeight;
+  public_key: PublicKey;
+}
+
+export type ActionView =
+  | NonDelegateActionView
+  | { Delegate: { delegate_action: DelegateActionView; signature: Signature } };
+
+// --- Receipts ---
+
+export interface DataReceiverView {
+  data_id: CryptoHash;
+  receiver_id: AccountId;
+}
+
+export interface ActionReceiptView {
+  signer_id: AccountId;
+  signer_public_key: PublicKey;
+  gas_price: Balance;
+  output_data_receivers: DataReceiverView[];
+  input_data_ids: CryptoHash[];
+  actions: ActionView[];
+  is_promise_yield?: boolean;
+}
+
+export interface DataReceiptView {
+  data_id: CryptoHash;
+  data?: string | null; // base64
+  is_promise_resume?: boolean;
+}
+
+export type ReceiptEnumView = { Action: ActionReceiptView } | { Data: DataReceiptView };
+
+export interface ReceiptView {
+  predecessor_id: AccountId;
+  receiver_id: AccountId;
+  receipt_id: CryptoHash;
+  receipt: ReceiptEnumView;
+  priority?: number;
+}
+
+// --- Outcomes ---
+
+export interface MerklePathItem {
+  hash: CryptoHash;
+  direction: 'Left' | 'Right';
+}
+
+export interface ExecutionOutcomeView {
+  logs: string[];
+  receipt_ids: CryptoHash[];
+  gas_burnt: Gas;
+  tokens_burnt: Balance;
+  executor_id: AccountId;
+  status: ExecutionStatusView;
+  metadata?: { version: number; gas_profile?: unknown[] | null };
+}
+
+export interface ExecutionOutcomeWithIdView {
+  proof?: MerklePathItem[];
+  block_hash: CryptoHash;
+  id: CryptoHash;
+  outcome: ExecutionOutcomeView;
+}
+
+export interface IndexerExecutionOutcomeWithReceipt {
+  execution_outcome: ExecutionOutcomeWithIdView;
+  receipt: ReceiptView;
+  tx_hash?: CryptoHash | null; // provided by neardata
+}
+
+// --- Transactions ---
+
+export interface SignedTransactionView {
+  signer_id: AccountId;
+  public_key: PublicKey;
+  nonce: Nonce;
+  receiver_id: AccountId;
+  actions: ActionView[];
+  priority_fee?: number;
+  signature: Signature;
+  hash: CryptoHash;
+}
+
+export interface IndexerExecutionOutcomeWithOptionalReceipt {
+  execution_outcome: ExecutionOutcomeWithIdView;
+  receipt?: ReceiptView | null;
 }
 
 export interface IndexerTransactionWithOutcome {
-  transaction: {
-    hash: string;
-    signer_id: string;
-    receiver_id: string;
-  };
-  outcome: {
-    execution_outcome: {
-      outcome: {
-        receipt_ids: string[];
-      };
-    };
-  };
+  transaction: SignedTransactionView;
+  outcome: IndexerExecutionOutcomeWithOptionalReceipt;
+}
+
+// --- Blocks and chunks ---
+
+export interface ChunkHeaderView {
+  chunk_hash: CryptoHash;
+  prev_block_hash: CryptoHash;
+  outcome_root?: CryptoHash;
+  prev_state_root?: CryptoHash;
+  encoded_merkle_root?: CryptoHash;
+  encoded_length?: number;
+  height_created: BlockHeight;
+  height_included: BlockHeight;
+  shard_id: number;
+  gas_used: Gas;
+  gas_limit: Gas;
+  balance_burnt: Balance;
+  outgoing_receipts_root?: CryptoHash;
+  tx_root: CryptoHash;
+  validator_proposals?: unknown[];
+  signature?: Signature;
+  rent_paid?: Balance;
+  validator_reward?: Balance;
+  congestion_info?: unknown;
+  bandwidth_requests?: unknown;
+}
+
+export interface BlockHeaderView {
+  height: BlockHeight;
+  prev_height?: BlockHeight | null;
+  epoch_id: CryptoHash;
+  next_epoch_id: CryptoHash;
+  hash: CryptoHash;
+  prev_hash: CryptoHash;
+  prev_state_root?: CryptoHash;
+  chunk_receipts_root?: CryptoHash;
+  chunk_headers_root?: CryptoHash;
+  chunk_tx_root?: CryptoHash;
+  outcome_root?: CryptoHash;
+  chunks_included: number;
+  challenges_root?: CryptoHash;
+  timestamp: number; // nanoseconds, may lose precision; prefer timestamp_nanosec
+  timestamp_nanosec: string | number;
+  random_value?: CryptoHash;
+  validator_proposals?: unknown[];
+  chunk_mask?: boolean[];
+  gas_price: Balance;
+  block_ordinal?: number | null;
+  total_supply?: Balance;
+  challenges_result?: unknown[];
+  last_final_block: CryptoHash;
+  last_ds_final_block?: CryptoHash;
+  next_bp_hash?: CryptoHash;
+  block_merkle_root?: CryptoHash;
+  epoch_sync_data_hash?: CryptoHash | null;
+  approvals?: (Signature | null)[];
+  signature?: Signature;
+  latest_protocol_version?: number;
+  rent_paid?: Balance;
+  validator_reward?: Balance;
+  block_body_hash?: CryptoHash | null;
+}
+
+export interface BlockView {
+  author: AccountId;
+  header: BlockHeaderView;
+  chunks: ChunkHeaderView[];
+}
+
+export interface IndexerChunkView {
+  author: AccountId;
+  header: ChunkHeaderView;
+  transactions: IndexerTransactionWithOutcome[];
+  receipts: ReceiptView[];
+}
+
+export type StateChangeCauseView =
+  | { type: 'not_writable_to_disk' }
+  | { type: 'initial_state' }
+  | { type: 'transaction_processing'; tx_hash: CryptoHash }
+  | { type: 'action_receipt_processing_started'; receipt_hash: CryptoHash }
+  | { type: 'action_receipt_gas_reward'; receipt_hash: CryptoHash }
+  | { type: 'receipt_processing'; receipt_hash: CryptoHash }
+  | { type: 'postponed_receipt'; receipt_hash: CryptoHash }
+  | { type: 'updated_delayed_receipts' }
+  | { type: 'validator_accounts_update' }
+  | { type: 'migration' }
+  | { type: 'resharding' }
+  | { type: string; tx_hash?: CryptoHash; receipt_hash?: CryptoHash };
+
+export interface StateChangeWithCauseView {
+  cause: StateChangeCauseView;
+  type: string; // e.g. 'account_update', 'access_key_deletion', 'data_update'
+  change: { account_id: AccountId } & Record<string, unknown>;
 }
 
 export interface IndexerShard {
   shard_id: number;
-  chunk?: {
-    transactions: IndexerTransactionWithOutcome[];
-  };
+  chunk?: IndexerChunkView;
   receipt_execution_outcomes: IndexerExecutionOutcomeWithReceipt[];
-  state_changes?: unknown;
+  state_changes?: StateChangeWithCauseView[];
 }
 
 export interface StreamerMessage {
-  block: {
-    header: {
-      height: BlockHeight;
-      timestamp_nanosec: string | number;
-    };
-  };
+  block: BlockView;
   shards: IndexerShard[];
 }
@@ -0,0 +1,111 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { existsSync, promises as fs } from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import {
+  ArchiveProvider,
+  BlockArchive,
+  downloadBlocks,
+  makeArchiveFetcher,
+  MissingArchiveBlockError,
+} from '../src/archive.ts';
+import { runIndexer } from '../src/indexer.ts';
+import { ProviderStreamer } from '../src/message_provider.ts';
+import type { Fetcher } from '../src/neardata.ts';
+import { makeBlock } from './helpers.ts';
+
+const cfg = { chain_id: 'mainnet', finality: 'Final' as const };
+const SKIPPED = 103;
+
+async function tempArchive(gzip = false) {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'inindexer-archive-'));
+  return new BlockArchive(dir, { gzip });
+}
+
+function chainFetcher(calls: number[] = []): Fetcher {
+  return async (_cfg, height) => {
+    calls.push(height);
+    return height === SKIPPED ? null : makeBlock(height);
+  };
+}
+
+test('downloadBlocks archives a range sharded by height and resumes', async () => {
+  const archive = await tempArchive(true);
+  try {
+    const calls: number[] = [];
+    const first = await downloadBlocks(chainFetcher(calls), cfg, archive, 100, 105, { concurrency: 2 });
+    assert.deepEqual(first, { downloaded: 4, skipped: 1, existing: 0 });
+    assert.ok(archive.path(100).endsWith(path.join('000000', '000', '100.json.gz')));
+    assert.ok(existsSync(archive.path(104)));
+
+    const second = await downloadBlocks(chainFetcher(calls), cfg, archive, 100, 107);
+    assert.deepEqual(second, { downloaded: 2, skipped: 0, existing: 5 });
+    assert.deepEqual(calls.slice(5).sort(), [105, 106]);
+  } finally {
+    await fs.rm(archive.dir, { recursive: true, force: true });
+  }
+});
+
+test('downloadBlocks stops every worker before rethrowing a failure', async () => {
+  const archive = await tempArchive();
+  try {
+    const calls: number[] = [];
+    const failing: Fetcher = async (c, height) => {
+      calls.push(height);
+      if (height === 102) throw new Error('boom');
+      await new Promise((r) => setTimeout(r, 20));
+      return makeBlock(height);
+    };
+    await assert.rejects(downloadBlocks(failing, cfg, archive, 100, 200, { concurrency: 4 }), /boom/);
+    const settled = calls.length;
+    await new Promise((r) => setTimeout(r, 100));
+    assert.equal(calls.length, settled);
+    assert.ok(settled < 10);
+  } finally {
+    await fs.rm(archive.dir, { recursive: true, force: true });
+  }
+});
+
+test('ArchiveProvider serves archived blocks, skipped heights and missing heights', async () => {
+  const archive = await tempArchive();
+  try {
+    await downloadBlocks(chainFetcher(), cfg, archive, 100, 105);
+    const provider = new ArchiveProvider(archive.dir, { network: 'mainnet' });
+    assert.equal(provider.network, 'mainnet');
+    assert.equal((await provider.getMessage(101))?.block.header.hash, 'hash101');
+    assert.equal(await provider.getMessage(SKIPPED), null);
+    await assert.rejects(provider.getMessage(999), MissingArchiveBlockError);
+    assert.equal(await new ArchiveProvider(archive.dir, { missing: 'skip' }).getMessage(999), null);
+
+    const fetcher = makeArchiveFetcher(archive);
+    assert.equal((await fetcher(cfg, 104))?.block.header.height, 104);
+  } finally {
+    await fs.rm(archive.dir, { recursive: true, force: true });
+  }
+});
+
+test('runIndexer processes a range from a local archive', async () => {
+  const archive = await tempArchive(true);
+  try {
+    await downloadBlocks(chainFetcher(), cfg, archive, 100, 106);
+    const seen: number[] = [];
+    await runIndexer(
+      {
+        async processBlock(block) {
+          seen.push(block.block.header.height);
+        },
+      },
+      new ProviderStreamer(new ArchiveProvider(archive)),
+      {
+        stop_on_error: true,
+        ctrl_c_handler: false,
+        genesis_block_height: 0,
+        range: { kind: 'Range', start_inclusive: 100, end_exclusive: 106 },
+      },
+    );
+    assert.deepEqual(seen, [100, 101, 102, 104, 105]);
+  } finally {
+    await fs.rm(archive.dir, { recursive: true, force: true });
+  }
+});
@@ -0,0 +1,84 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { BlockContinuityError, ContinuityVerifier } from '../src/continuity.ts';
+import { ProviderStreamer } from '../src/message_provider.ts';
+import type { BlockHeight, StreamerMessage } from '../src/types.ts';
+import { blockHash, makeBlock, MemoryProvider } from './helpers.ts';
+
+// The trusted chain: 1..5 with height 4 skipped
+const chain = new Map<BlockHeight, StreamerMessage>(
+  [1, 2, 3, 5].map((h) => [h, makeBlock(h, { prev_height: h === 5 ? 3 : h - 1 })]),
+);
+
+async function collect(delivered: StreamerMessage[], options: ConstructorParameters<typeof ContinuityVerifier>[1]) {
+  const verifier = new ContinuityVerifier(new ProviderStreamer(new MemoryProvider(delivered)), options);
+  const { handle, receiver } = await verifier.stream(1, 6);
+  const out: StreamerMessage[] = [];
+  try {
+    for await (const msg of receiver) out.push(msg);
+  } finally {
+    await handle;
+  }
+  return out;
+}
+
+const refetched: BlockHeight[] = [];
+const refetch = async (h: BlockHeight) => {
+  refetched.push(h);
+  return chain.get(h) ?? null;
+};
+
+test('a chain with skipped heights passes unchanged', async () => {
+  const mismatches: BlockContinuityError[] = [];
+  const out = await collect([...chain.values()], { onMismatch: (e) => mismatches.push(e) });
+  assert.deepEqual(
+    out.map((m) => m.block.header.height),
+    [1, 2, 3, 5],
+  );
+  assert.deepEqual(mismatches, []);
+});
+
+test('a dropped block is refetched', async () => {
+  refetched.length = 0;
+  const mismatches: BlockContinuityError[] = [];
+  const out = await collect([chain.get(1)!, chain.get(3)!, chain.get(5)!], {
+    refetch,
+    onMismatch: (e) => mismatches.push(e),
+  });
+  assert.deepEqual(
+    out.map((m) => m.block.header.height),
+    [1, 2, 3, 5],
+  );
+  assert.deepEqual(refetched, [2, 3]);
+  assert.equal(mismatches.length, 1);
+  assert.equal(mismatches[0].height, 3);
+  assert.equal(mismatches[0].previous_height, 1);
+  assert.equal(mismatches[0].expected_prev_hash, blockHash(1));
+  assert.equal(mismatches[0].actual_prev_hash, blockHash(2));
+});
+
+test('a block with a mismatching prev_hash is replaced by the refetched one', async () => {
+  refetched.length = 0;
+  const altered = makeBlock(3);
+  altered.block.header.prev_hash = 'forged';
+  const out = await collect([chain.get(1)!, chain.get(2)!, altered, chain.get(5)!], { refetch });
+  assert.deepEqual(
+    out.map((m) => [m.block.header.height, m.block.header.prev_hash]),
+    [
+      [1, blockHash(0)],
+      [2, blockHash(1)],
+      [3, blockHash(2)],
+      [5, blockHash(3)],
+    ],
+  );
+  assert.deepEqual(refetched, [3]);
+});
+
+test('a mismatch throws without refetch, or when the trusted source disagrees', async () => {
+  const delivered = [chain.get(1)!, chain.get(3)!];
+  await assert.rejects(collect(delivered, {}), BlockContinuityError);
+  // The delivered block 1 is not on the trusted chain
+  const forked = makeBlock(1);
+  forked.block.header.hash = 'fork1';
+  await assert.rejects(collect([forked, chain.get(2)!], { refetch }), BlockContinuityError);
+});
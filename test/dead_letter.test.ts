@@ -0,0 +1,44 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { replayDeadLetters } from '../src/dead_letter.ts';
+import type { DeadLetterEntry } from '../src/indexer.ts';
+import { ProviderStreamer } from '../src/message_provider.ts';
+import { makeBlock, MemoryProvider } from './helpers.ts';
+
+const entry = (block_height: number, hook: DeadLetterEntry['hook']): DeadLetterEntry => ({
+  block_height,
+  hook,
+  error: 'boom',
+  attempts: 1,
+  failed_at: new Date(0).toISOString(),
+});
+
+const options = {
+  genesis_block_height: 0,
+  preprocess_transactions: { prefetch_blocks: 100, postfetch_blocks: 100 },
+};
+
+test('raw hook failures are replayed from their block alone', async () => {
+  const provider = new MemoryProvider(Array.from({ length: 400 }, (_, i) => makeBlock(i + 1)));
+  const seen: number[] = [];
+  const failed = await replayDeadLetters(
+    {
+      async processBlock(block) {
+        seen.push(block.block.header.height);
+      },
+    },
+    new ProviderStreamer(provider),
+    [entry(200, 'processReceipt'), entry(200, 'processBlock')],
+    options,
+  );
+  assert.deepEqual(failed, []);
+  assert.deepEqual(seen, [200]);
+  assert.deepEqual(provider.requested, [200]);
+});
+
+test('transaction hook failures are replayed with prefetch and postfetch', async () => {
+  const provider = new MemoryProvider(Array.from({ length: 400 }, (_, i) => makeBlock(i + 1)));
+  await replayDeadLetters({}, new ProviderStreamer(provider), [entry(200, 'onTransaction')], options);
+  assert.equal(Math.min(...provider.requested), 100);
+  assert.equal(Math.max(...provider.requested), 300);
+});
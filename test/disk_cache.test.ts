@@ -0,0 +1,69 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { existsSync, promises as fs } from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { BlockArchive } from '../src/archive.ts';
+import { withDiskCache } from '../src/disk_cache.ts';
+import type { Fetcher } from '../src/neardata.ts';
+import { makeBlock } from './helpers.ts';
+
+const cfg = { chain_id: 'mainnet', finality: 'Final' as const };
+
+async function tempDir() {
+  return fs.mkdtemp(path.join(os.tmpdir(), 'inindexer-cache-'));
+}
+
+function countingFetcher() {
+  const calls: number[] = [];
+  const fetcher: Fetcher = async (_cfg, height) => {
+    calls.push(height);
+    return makeBlock(height);
+  };
+  return { fetcher, calls };
+}
+
+test('a block is returned even when it cannot be cached', async () => {
+  const dir = await tempDir();
+  // A file where the cache directory should be makes every write fail
+  const blocked = path.join(dir, 'not-a-dir');
+  await fs.writeFile(blocked, '');
+  const { fetcher, calls } = countingFetcher();
+  const cached = withDiskCache(fetcher, { dir: blocked });
+  assert.equal((await cached(cfg, 7))?.block.header.height, 7);
+  assert.equal((await cached(cfg, 7))?.block.header.height, 7);
+  assert.deepEqual(calls, [7, 7]);
+  await fs.rm(dir, { recursive: true, force: true });
+});
+
+test('rewriting a block in the other encoding keeps the size accounting', async () => {
+  const dir = await tempDir();
+  const archive = new BlockArchive(path.join(dir, 'mainnet', 'final'), { gzip: true });
+
+  // An earlier run cached blocks 0 and 1 uncompressed, 0 being the least recently used
+  const first = withDiskCache(countingFetcher().fetcher, { dir, gzip: false });
+  await first(cfg, 0);
+  await first(cfg, 1);
+  await fs.utimes(archive.path(0, false), 1000, 1000);
+  await fs.utimes(archive.path(1, false), 2000, 2000);
+  const json0 = (await fs.stat(archive.path(0, false))).size;
+
+  // Size the cache for block 0 plus blocks 1 and 2 compressed
+  const sizes = new BlockArchive(await tempDir(), { gzip: true });
+  await sizes.write(1, makeBlock(1));
+  await sizes.write(2, makeBlock(2));
+  const gzBytes = (await fs.stat(sizes.path(1))).size + (await fs.stat(sizes.path(2))).size;
+  await fs.rm(sizes.dir, { recursive: true, force: true });
+
+  // Block 1 is rewritten compressed. Still counting its uncompressed copy would push
+  // the total over max_bytes when block 2 comes in, and evict block 0
+  const cached = withDiskCache(countingFetcher().fetcher, { dir, gzip: true, max_bytes: json0 + gzBytes });
+  await cached(cfg, 1);
+  await cached(cfg, 2);
+  assert.ok(!existsSync(archive.path(1, false)));
+  assert.ok(existsSync(archive.path(0, false)));
+  assert.ok(existsSync(archive.path(1)));
+  assert.ok(existsSync(archive.path(2)));
+
+  await fs.rm(dir, { recursive: true, force: true });
+});
@@ -0,0 +1,39 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { matchesAccount } from '../src/near_utils.ts';
+import { EventRouterIndexer } from '../src/event_router.ts';
+import { makeBlock } from './helpers.ts';
+
+test('matchesAccount matches exact ids, wildcards and whole-id RegExps', () => {
+  assert.ok(matchesAccount('token.near', 'token.near'));
+  assert.ok(!matchesAccount('token.near', 'xtoken.near'));
+  assert.ok(matchesAccount('*', 'anything.near'));
+  assert.ok(matchesAccount('*.tkn.near', 'abc.tkn.near'));
+  assert.ok(!matchesAccount('*.tkn.near', 'tkn.near'));
+  assert.ok(matchesAccount(['a.near', '*.b.near'], 'x.b.near'));
+
+  assert.ok(matchesAccount(/[a-z]+\.near/, 'token.near'));
+  // A partial match is not enough, unanchored or not
+  assert.ok(!matchesAccount(/token\.near/, 'token.near.attacker.near'));
+  assert.ok(!matchesAccount(/token\.near/, 'evil-token.near'));
+  // Global patterns don't carry lastIndex over between calls
+  const global = /token\.near/g;
+  assert.ok(matchesAccount(global, 'token.near'));
+  assert.ok(matchesAccount(global, 'token.near'));
+});
+
+test('EventRouterIndexer routes events from RegExp contracts only on a whole-id match', async () => {
+  const log = 'EVENT_JSON:' + JSON.stringify({ standard: 'nep141', version: '1.0.0', event: 'ft_mint', data: [] });
+  const seen: string[] = [];
+  const router = new EventRouterIndexer().on({ contract: /token\.near/, standard: 'nep141' }, (_data, ctx) => {
+    seen.push(ctx.contract_id);
+  });
+  const block = makeBlock(1, {
+    receipts: [
+      { id: 'r1', receiver_id: 'token.near', logs: [log] },
+      { id: 'r2', receiver_id: 'token.near.spoof.near', logs: [log] },
+    ],
+  });
+  for (const r of block.shards[0].receipt_execution_outcomes) await router.processReceipt(r, block);
+  assert.deepEqual(seen, ['token.near']);
+});
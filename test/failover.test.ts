@@ -0,0 +1,134 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { makeFailoverFetcher, type FailoverFetcherOptions } from '../src/failover.ts';
+import type { FetcherConfig } from '../src/neardata.ts';
+import type { StreamerMessage } from '../src/types.ts';
+import { startNeardataServer, type NeardataServer } from './fixtures/neardata_server.ts';
+
+const cfg: FetcherConfig = { chain_id: 'mainnet', finality: 'Final' };
+const blockPaths = (server: NeardataServer) => server.requests.filter((p) => p.startsWith('/v0/block/'));
+
+async function withServers(
+  count: number,
+  run: (servers: NeardataServer[]) => Promise<void>,
+): Promise<void> {
+  const servers = await Promise.all(Array.from({ length: count }, () => startNeardataServer()));
+  try {
+    await run(servers);
+  } finally {
+    await Promise.all(servers.map((s) => s.close()));
+  }
+}
+
+function fetcherFor(servers: NeardataServer[], options: FailoverFetcherOptions = {}) {
+  const served: string[] = [];
+  const fetcher = makeFailoverFetcher(
+    // Listed backwards: priority decides the order
+    servers.map((s, i) => ({ url: s.url, priority: i })).reverse(),
+    { map: (b) => b as StreamerMessage, onServed: (_h, url) => served.push(url), ...options },
+  );
+  return { fetcher, served };
+}
+
+test('blocks come from the preferred endpoint and fail over when it errors', async () => {
+  await withServers(2, async ([primary, mirror]) => {
+    const { fetcher, served } = fetcherFor([primary, mirror]);
+    assert.equal((await fetcher(cfg, 10))?.block.header.height, 10);
+    primary.state.failing = true;
+    assert.equal((await fetcher(cfg, 11))?.block.header.height, 11);
+    assert.deepEqual(served, [primary.url, mirror.url]);
+    assert.deepEqual(
+      fetcher.status().map((s) => [s.url, s.healthy]),
+      [
+        [primary.url, false],
+        [mirror.url, true],
+      ],
+    );
+  });
+});
+
+test('a recovered primary endpoint is taken back after a probe', async () => {
+  await withServers(2, async ([primary, mirror]) => {
+    const changes: [string, boolean][] = [];
+    const { fetcher, served } = fetcherFor([primary, mirror], {
+      health_check_interval_ms: 0,
+      onHealthChange: (url, healthy) => changes.push([url, healthy]),
+    });
+    primary.state.failing = true;
+    await fetcher(cfg, 10);
+    primary.state.failing = false;
+    await fetcher(cfg, 11); // still the mirror; probes the primary in the background
+    await new Promise((r) => setTimeout(r, 50));
+    await fetcher(cfg, 12);
+    assert.deepEqual(served, [mirror.url, mirror.url, primary.url]);
+    assert.deepEqual(changes, [
+      [primary.url, false],
+      [primary.url, true],
+    ]);
+  });
+});
+
+test('an endpoint lagging more than max_lag_blocks is unhealthy', async () => {
+  await withServers(2, async ([primary, mirror]) => {
+    primary.state.head = 900;
+    const { fetcher, served } = fetcherFor([primary, mirror], { max_lag_blocks: 50 });
+    await fetcher.checkHealth(cfg);
+    const [p, m] = fetcher.status();
+    assert.equal(p.healthy, false);
+    assert.match(String(p.last_error), /100 blocks behind/);
+    assert.equal(m.healthy, true);
+    await fetcher(cfg, 950);
+    assert.deepEqual(served, [mirror.url]);
+  });
+});
+
+test('heights skipped below the head are not asked from other endpoints', async () => {
+  await withServers(2, async ([primary, mirror]) => {
+    primary.state.skipped = new Set([5, 7]);
+    const { fetcher, served } = fetcherFor([primary, mirror]);
+    assert.equal((await fetcher(cfg, 4))?.block.header.height, 4);
+    assert.equal(await fetcher(cfg, 5), null);
+    assert.equal((await fetcher(cfg, 6))?.block.header.height, 6);
+    assert.equal(await fetcher(cfg, 7), null);
+    assert.deepEqual(served, [primary.url, primary.url, primary.url, primary.url]);
+    assert.deepEqual(blockPaths(mirror), []);
+    // The head was looked up once, not per gap
+    assert.equal(primary.requests.filter((p) => p.startsWith('/v0/last_block')).length, 1);
+  });
+});
+
+test('a height the preferred endpoint has not synced yet comes from another one', async () => {
+  await withServers(2, async ([primary, mirror]) => {
+    primary.state.head = 100;
+    mirror.state.head = 110;
+    const { fetcher, served } = fetcherFor([primary, mirror]);
+    assert.equal((await fetcher(cfg, 105))?.block.header.height, 105);
+    assert.deepEqual(served, [mirror.url]);
+  });
+});
+
+test('a throwing onHealthChange in a background probe is not an unhandled rejection', async () => {
+  const unhandled: unknown[] = [];
+  const onUnhandled = (e: unknown) => unhandled.push(e);
+  process.on('unhandledRejection', onUnhandled);
+  try {
+    await withServers(2, async ([primary, mirror]) => {
+      let throwing = false;
+      const { fetcher } = fetcherFor([primary, mirror], {
+        health_check_interval_ms: 0,
+        onHealthChange: () => {
+          if (throwing) throw new Error('callback failed');
+        },
+      });
+      primary.state.failing = true;
+      await fetcher(cfg, 10);
+      primary.state.failing = false;
+      throwing = true;
+      await fetcher(cfg, 11);
+      await new Promise((r) => setTimeout(r, 50));
+    });
+  } finally {
+    process.off('unhandledRejection', onUnhandled);
+  }
+  assert.deepEqual(unhandled, []);
+});
@@ -0,0 +1,30 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { withFetchPolicy } from '../src/fetcher_middleware.ts';
+import { NeardataHttpError, type Fetcher } from '../src/neardata.ts';
+import { makeBlock } from './helpers.ts';
+
+const cfg = { chain_id: 'mainnet', finality: 'Final' as const };
+
+test('Retry-After is capped by max_delay_ms', async () => {
+  let calls = 0;
+  const fetcher: Fetcher = async (_cfg, height) => {
+    if (calls++ === 0) throw new NeardataHttpError(429, 'http://test', 'slow down', 3_600_000);
+    return makeBlock(height);
+  };
+  const started = Date.now();
+  const msg = await withFetchPolicy(fetcher, { retry: { max_retries: 1, max_delay_ms: 50 } })(cfg, 5);
+  assert.equal(msg?.block.header.height, 5);
+  assert.equal(calls, 2);
+  assert.ok(Date.now() - started < 1000);
+});
+
+test('fatal HTTP errors are not retried', async () => {
+  let calls = 0;
+  const fetcher: Fetcher = async () => {
+    calls++;
+    throw new NeardataHttpError(404, 'http://test', 'not found');
+  };
+  await assert.rejects(withFetchPolicy(fetcher, { retry: { max_retries: 3 } })(cfg, 5), NeardataHttpError);
+  assert.equal(calls, 1);
+});
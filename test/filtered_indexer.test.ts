@@ -0,0 +1,111 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { FilteredIndexer } from '../src/filtered_indexer.ts';
+import { runIndexer, type CompleteTransaction, type TransactionReceipt } from '../src/indexer.ts';
+import { ProviderStreamer } from '../src/message_provider.ts';
+import type { IndexerExecutionOutcomeWithReceipt } from '../src/types.ts';
+import { makeBlock, MemoryProvider } from './helpers.ts';
+
+test('a transaction matched only by a later receipt is delivered whole', async () => {
+  // T calls router.near (R1), which calls token.near (R2) and then resolves itself (R3).
+  // Only R2 matches the filter
+  const blocks = [
+    makeBlock(1, { txs: [{ hash: 'T', receiver_id: 'router.near', receipt_ids: ['R1'] }] }),
+    makeBlock(2, { receipts: [{ id: 'R1', tx_hash: 'T', receiver_id: 'router.near', receipt_ids: ['R2'] }] }),
+    makeBlock(3, {
+      receipts: [
+        { id: 'R2', tx_hash: 'T', predecessor_id: 'router.near', receiver_id: 'token.near', receipt_ids: ['R3'] },
+      ],
+    }),
+    makeBlock(4, { receipts: [{ id: 'R3', tx_hash: 'T', predecessor_id: 'router.near', receiver_id: 'router.near' }] }),
+    // An unrelated transaction that never matches
+    makeBlock(5, { txs: [{ hash: 'U', receiver_id: 'other.near', receipt_ids: ['U1'] }] }),
+    makeBlock(6, { receipts: [{ id: 'U1', tx_hash: 'U', receiver_id: 'other.near' }] }),
+  ];
+  const transactions: CompleteTransaction[] = [];
+  const onReceipt: string[] = [];
+  const processReceipt: string[] = [];
+  const indexer = new FilteredIndexer(
+    {
+      async onTransaction(tx: CompleteTransaction) {
+        transactions.push(tx);
+      },
+      async onReceipt(r: TransactionReceipt) {
+        onReceipt.push(r.receipt.receipt.receipt_id);
+      },
+      async processReceipt(r: IndexerExecutionOutcomeWithReceipt) {
+        processReceipt.push(r.receipt.receipt_id);
+      },
+    },
+    { accounts: 'token.near' },
+  );
+  await runIndexer(indexer, new ProviderStreamer(new MemoryProvider(blocks)), {
+    stop_on_error: true,
+    ctrl_c_handler: false,
+    genesis_block_height: 0,
+    range: { kind: 'Range', start_inclusive: 1, end_exclusive: 7 },
+    preprocess_transactions: { prefetch_blocks: 0, postfetch_blocks: 0 },
+  });
+
+  assert.deepEqual(
+    transactions.map((tx) => [tx.transaction.transaction.hash, tx.receipts.map((r) => r.receipt.receipt.receipt_id)]),
+    [['T', ['R1', 'R2', 'R3']]],
+  );
+  // R1 ran before anything matched; R3 does not match but follows the matching R2
+  assert.deepEqual(onReceipt, ['R2', 'R3']);
+  assert.deepEqual(processReceipt, ['R2']);
+});
+
+// Records the account ids the filter checks, which shows when a match is computed
+class RecordingPattern extends RegExp {
+  tested: string[] = [];
+  exec(account: string) {
+    this.tested.push(account);
+    return super.exec(account);
+  }
+}
+
+async function pendingTransactionMatches(options?: { max_age_blocks: number }) {
+  // T to token.near is matched in block 1; its receipt arrives in block 5
+  const blocks = [
+    makeBlock(1, { txs: [{ hash: 'T', receiver_id: 'token.near', receipt_ids: ['R1'] }] }),
+    ...[2, 3, 4].map((h) => makeBlock(h)),
+    makeBlock(5, { receipts: [{ id: 'R1', tx_hash: 'T', predecessor_id: 'router.near', receiver_id: 'other.near' }] }),
+  ];
+  const pattern = new RecordingPattern('token\\.near');
+  const seen: string[] = [];
+  const indexer = new FilteredIndexer(
+    {
+      async processTransaction(tx) {
+        seen.push(`tx ${tx.transaction.hash}`);
+      },
+      async onReceipt(r) {
+        seen.push(`receipt ${r.receipt.receipt.receipt_id}`);
+      },
+      async onTransaction(tx) {
+        seen.push(`complete ${tx.transaction.transaction.hash}`);
+      },
+    },
+    { accounts: pattern },
+    options,
+  );
+  await runIndexer(indexer, new ProviderStreamer(new MemoryProvider(blocks)), {
+    stop_on_error: true,
+    ctrl_c_handler: false,
+    genesis_block_height: 0,
+    range: { kind: 'Range', start_inclusive: 1, end_exclusive: 6 },
+    preprocess_transactions: { prefetch_blocks: 0, postfetch_blocks: 0 },
+  });
+  return { seen, tokenChecks: pattern.tested.filter((a) => a === 'token.near').length };
+}
+
+test('a match evicted by block age is computed again for a pending transaction', async () => {
+  const kept = await pendingTransactionMatches();
+  assert.deepEqual(kept.seen, ['tx T', 'receipt R1', 'complete T']);
+  assert.equal(kept.tokenChecks, 1);
+
+  // Block 1 is more than two blocks behind block 4, so T is matched again in block 5 with the same result
+  const evicted = await pendingTransactionMatches({ max_age_blocks: 2 });
+  assert.deepEqual(evicted.seen, ['tx T', 'receipt R1', 'complete T']);
+  assert.equal(evicted.tokenChecks, 2);
+});
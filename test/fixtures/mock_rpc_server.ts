@@ -0,0 +1,176 @@
+import http from 'node:http';
+import type { AddressInfo } from 'node:net';
+
+// A small in-process JSON-RPC server that answers the calls NearRpcProvider makes
+// (block, chunk, EXPERIMENTAL_tx_status, EXPERIMENTAL_receipt) for a synthetic chain.
+// Each block includes an ft_transfer transaction `tx-<h>` whose receipt `rid-<h>` runs in
+// the next produced block; height 102 is skipped and nothing exists after LAST.
+
+export const FIRST = 100;
+export const LAST = 105; // end of the indexed range; produced so the last receipt can run
+export const SKIPPED = new Set([102]);
+
+const hashOf = (h: number) => `block-${h}`;
+const heights = Array.from({ length: LAST + 1 - FIRST }, (_, i) => FIRST + i).filter((h) => !SKIPPED.has(h));
+// A receipt runs in the next produced block after its transaction
+const nextProduced = (h: number) => heights.find((x) => x > h) ?? h + 1;
+
+export const ftLog = (amount: string) =>
+  'EVENT_JSON:' +
+  JSON.stringify({
+    standard: 'nep141',
+    version: '1.0.0',
+    event: 'ft_transfer',
+    data: [{ old_owner_id: 'alice.near', new_owner_id: 'bob.near', amount }],
+  });
+
+const outcome = (block_hash: string, id: string, executor_id: string, receipt_ids: string[], logs: string[]) => ({
+  proof: [],
+  block_hash,
+  id,
+  outcome: {
+    logs,
+    receipt_ids,
+    gas_burnt: 2_428_000_000_000,
+    tokens_burnt: '242800000000000000000',
+    executor_id,
+    status: receipt_ids.length ? { SuccessReceiptId: receipt_ids[0] } : { SuccessValue: '' },
+  },
+});
+
+const transaction = (h: number) => ({
+  signer_id: 'alice.near',
+  public_key: 'ed25519:11111111111111111111111111111111',
+  nonce: h,
+  receiver_id: 'token.near',
+  actions: [
+    {
+      FunctionCall: {
+        method_name: 'ft_transfer',
+        args: Buffer.from(JSON.stringify({ receiver_id: 'bob.near', amount: String(h) })).toString('base64'),
+        gas: 30_000_000_000_000,
+        deposit: '1',
+      },
+    },
+  ],
+  signature: 'ed25519:1111111111111111111111111111111111111111111111111111111111111111',
+  hash: `tx-${h}`,
+});
+
+const receipt = (h: number) => ({
+  predecessor_id: 'alice.near',
+  receiver_id: 'token.near',
+  receipt_id: `rid-${h}`,
+  receipt: {
+    Action: {
+      signer_id: 'alice.near',
+      signer_public_key: 'ed25519:11111111111111111111111111111111',
+      gas_price: '100000000',
+      output_data_receivers: [],
+      input_data_ids: [],
+      actions: transaction(h).actions,
+    },
+  },
+});
+
+const chunkHeader = (h: number) => ({
+  chunk_hash: `chunk-${h}`,
+  prev_block_hash: hashOf(h - 1),
+  height_created: h,
+  height_included: h,
+  shard_id: 0,
+  gas_used: 0,
+  gas_limit: 1_000_000_000_000_000,
+  balance_burnt: '0',
+  tx_root: '11111111111111111111111111111111',
+});
+
+function handle(method: string, params: any, options: MockRpcOptions): unknown {
+  switch (method) {
+    case 'block': {
+      const h = params.block_id;
+      if (!heights.includes(h)) throw { name: 'HANDLER_ERROR', cause: { name: 'UNKNOWN_BLOCK', info: {} } };
+      return {
+        author: 'validator.near',
+        header: {
+          height: h,
+          epoch_id: 'epoch-0',
+          next_epoch_id: 'epoch-1',
+          hash: hashOf(h),
+          prev_hash: hashOf(h - 1),
+          chunks_included: 1,
+          timestamp: Number(1_700_000_000_000_000_000n + BigInt(h)),
+          timestamp_nanosec: String(1_700_000_000_000_000_000n + BigInt(h)),
+          gas_price: '100000000',
+          last_final_block: hashOf(h - 2),
+        },
+        chunks: [chunkHeader(h)],
+      };
+    }
+    case 'chunk': {
+      const h = Number(String(params.chunk_id).replace('chunk-', ''));
+      return { author: 'validator.near', header: chunkHeader(h), transactions: [transaction(h)], receipts: [] };
+    }
+    case 'EXPERIMENTAL_tx_status': {
+      const h = Number(String(params.tx_hash).replace('tx-', ''));
+      return {
+        final_execution_status: 'FINAL',
+        status: { SuccessValue: '' },
+        transaction: transaction(h),
+        transaction_outcome: outcome(hashOf(h), `tx-${h}`, 'alice.near', [`rid-${h}`], []),
+        receipts_outcome: [outcome(hashOf(nextProduced(h)), `rid-${h}`, 'token.near', [], [ftLog(String(h))])],
+        // Without receipts the provider has to fetch them with EXPERIMENTAL_receipt
+        receipts: options.omit_receipts?.includes(h) ? undefined : [receipt(h)],
+      };
+    }
+    case 'EXPERIMENTAL_receipt':
+      return receipt(Number(String(params.receipt_id).replace('rid-', '')));
+    default:
+      throw { code: -32601, message: 'Method not found', name: 'REQUEST_VALIDATION_ERROR', cause: { name: 'METHOD_NOT_FOUND' } };
+  }
+}
+
+export interface MockRpcOptions {
+  // Heights whose transaction status leaves out the receipts
+  omit_receipts?: number[];
+}
+
+export interface MockRpcServer {
+  url: string;
+  calls: string[]; // methods in the order they were called
+  close(): Promise<void>;
+}
+
+export function startMockRpcServer(options: MockRpcOptions = {}): Promise<MockRpcServer> {
+  const calls: string[] = [];
+  const server = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', (c) => (body += c));
+    req.on('end', () => {
+      const { id, method, params } = JSON.parse(body);
+      calls.push(method);
+      let reply: unknown;
+      try {
+        reply = { jsonrpc: '2.0', id, result: handle(method, params, options) };
+      } catch (error) {
+        reply = { jsonrpc: '2.0', id, error };
+      }
+      res.setHeader('content-type', 'application/json');
+      res.end(JSON.stringify(reply));
+    });
+  });
+  return new Promise((resolve) =>
+    server.listen(0, '127.0.0.1', () => {
+      const { port } = server.address() as AddressInfo;
+      resolve({
+        url: `http://127.0.0.1:${port}/`,
+        calls,
+        close: () =>
+          new Promise((done) => {
+            server.close(() => done());
+            server.closeAllConnections(); // fetch keeps connections alive
+          }),
+      });
+    }),
+  );
+}
@@ -0,0 +1,56 @@
+import http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { makeBlock } from '../helpers.ts';
+
+// A small neardata-compatible HTTP server: /v0/block/<h> answers makeBlock(h) (already mapped,
+// so fetchers need `map: (b) => b`) or null for skipped heights, 404 above the head, and
+// /v0/last_block/final the head block. `failing` makes every request answer 500.
+
+export interface NeardataServerState {
+  head: number;
+  skipped: Set<number>;
+  failing: boolean;
+}
+
+export interface NeardataServer {
+  url: string;
+  state: NeardataServerState;
+  requests: string[]; // paths in the order they were requested
+  close(): Promise<void>;
+}
+
+export function startNeardataServer(state: Partial<NeardataServerState> = {}): Promise<NeardataServer> {
+  const current: NeardataServerState = { head: 1000, skipped: new Set(), failing: false, ...state };
+  const requests: string[] = [];
+  const server = http.createServer((req, res) => {
+    const path = req.url ?? '';
+    requests.push(path);
+    const reply = (status: number, body: unknown) => {
+      res.statusCode = status;
+      res.setHeader('content-type', 'application/json');
+      res.end(JSON.stringify(body));
+    };
+    if (current.failing) return reply(500, { error: 'unavailable' });
+    if (path === '/v0/last_block/final') return reply(200, makeBlock(current.head));
+    const m = /^\/v0\/block\/(\d+)$/.exec(path);
+    if (!m) return reply(404, null);
+    const height = Number(m[1]);
+    if (height > current.head) return reply(404, null);
+    reply(200, current.skipped.has(height) ? null : makeBlock(height));
+  });
+  return new Promise((resolve) =>
+    server.listen(0, '127.0.0.1', () => {
+      const { port } = server.address() as AddressInfo;
+      resolve({
+        url: `http://127.0.0.1:${port}`,
+        state: current,
+        requests,
+        close: () =>
+          new Promise((done) => {
+            server.close(() => done());
+            server.closeAllConnections(); // fetch keeps connections alive
+          }),
+      });
+    }),
+  );
+}
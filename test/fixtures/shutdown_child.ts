@@ -0,0 +1,21 @@
+// Runs an indexer stuck in its first block until signalled, reporting signals on stdout
+import { runIndexer } from '../../src/indexer.ts';
+import { ProviderStreamer } from '../../src/message_provider.ts';
+import { makeBlock, MemoryProvider } from '../helpers.ts';
+
+await runIndexer(
+  {
+    async processBlock() {
+      console.log('ready');
+      await new Promise(() => setInterval(() => {}, 1000)); // never settles, keeps the process alive
+    },
+  },
+  new ProviderStreamer(new MemoryProvider([makeBlock(1)])),
+  {
+    stop_on_error: true,
+    ctrl_c_handler: true,
+    genesis_block_height: 0,
+    range: { kind: 'Range', start_inclusive: 1, end_exclusive: 2 },
+    onShutdownSignal: (signal, forced) => console.log(`${signal} ${forced}`),
+  },
+);
@@ -0,0 +1,119 @@
+import type { MessageProvider } from '../src/message_provider.ts';
+import type { BlockHeight, StreamerMessage } from '../src/types.ts';
+
+// Synthetic blocks for tests: a single shard, hashes derived from heights
+
+export interface TestTx {
+  hash: string;
+  signer_id?: string;
+  receiver_id?: string;
+  receipt_ids?: string[];
+  actions?: unknown[];
+}
+
+export interface TestReceipt {
+  id: string;
+  predecessor_id?: string;
+  receiver_id?: string;
+  tx_hash?: string;
+  receipt_ids?: string[];
+  logs?: string[];
+  status?: unknown;
+  actions?: unknown[];
+}
+
+export function blockHash(height: BlockHeight) {
+  return `hash${height}`;
+}
+
+export function makeBlock(
+  height: BlockHeight,
+  { txs = [], receipts = [], prev_height = height - 1 }: { txs?: TestTx[]; receipts?: TestReceipt[]; prev_height?: BlockHeight } = {},
+): StreamerMessage {
+  const outcome = (id: string, executor: string, receipt_ids: string[], logs: string[], status: unknown) => ({
+    proof: [],
+    block_hash: blockHash(height),
+    id,
+    outcome: { logs, receipt_ids, gas_burnt: 0, tokens_burnt: '0', executor_id: executor, status },
+  });
+  return {
+    block: {
+      author: 'node0',
+      header: {
+        height,
+        prev_height,
+        hash: blockHash(height),
+        prev_hash: blockHash(prev_height),
+        timestamp: height * 1_000_000_000,
+        timestamp_nanosec: String(height * 1_000_000_000),
+      },
+      chunks: [],
+    },
+    shards: [
+      {
+        shard_id: 0,
+        chunk: {
+          author: 'node0',
+          header: {},
+          receipts: [],
+          transactions: txs.map((tx) => ({
+            transaction: {
+              hash: tx.hash,
+              signer_id: tx.signer_id ?? 'alice.near',
+              receiver_id: tx.receiver_id ?? 'contract.near',
+              public_key: 'ed25519:test',
+              nonce: 1,
+              signature: 'ed25519:test',
+              actions: tx.actions ?? [],
+            },
+            outcome: {
+              execution_outcome: outcome(tx.hash, tx.signer_id ?? 'alice.near', tx.receipt_ids ?? [], [], {
+                kind: 'SuccessReceiptId',
+                id: tx.receipt_ids?.[0] ?? '',
+              }),
+              receipt: null,
+            },
+          })),
+        },
+        receipt_execution_outcomes: receipts.map((r) => ({
+          execution_outcome: outcome(
+            r.id,
+            r.receiver_id ?? 'contract.near',
+            r.receipt_ids ?? [],
+            r.logs ?? [],
+            r.status ?? { kind: 'SuccessValue', value: '' },
+          ),
+          receipt: {
+            predecessor_id: r.predecessor_id ?? 'alice.near',
+            receiver_id: r.receiver_id ?? 'contract.near',
+            receipt_id: r.id,
+            receipt: { Action: { signer_id: 'alice.near', actions: r.actions ?? [] } },
+          },
+          tx_hash: r.tx_hash,
+        })),
+        state_changes: [],
+      },
+    ],
+  } as unknown as StreamerMessage;
+}
+
+// In-memory provider; heights without a block are skipped
+export class MemoryProvider implements MessageProvider {
+  public readonly network?: string;
+  public requested: BlockHeight[] = [];
+  private blocks: Map<BlockHeight, StreamerMessage>;
+  constructor(blocks: StreamerMessage[], network?: string) {
+    this.blocks = new Map(blocks.map((b) => [b.block.header.height, b]));
+    this.network = network;
+  }
+
+  async getMessage(height: BlockHeight): Promise<StreamerMessage | null> {
+    this.requested.push(height);
+    return this.blocks.get(height) ?? null;
+  }
+}
+
+// ASCII base64 of a JSON value, as function call args are serialized
+export function jsonArgs(value: unknown): string {
+  return Buffer.from(JSON.stringify(value)).toString('base64');
+}
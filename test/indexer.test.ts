@@ -0,0 +1,226 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { spawn } from 'node:child_process';
+import { once } from 'node:events';
+import { fileURLToPath } from 'node:url';
+import {
+  AutoContinue,
+  runIndexer,
+  type CompleteTransaction,
+  type IncompleteTransaction,
+  type IndexerOptions,
+  type SaveLocation,
+  type TransactionReceipt,
+  type TransactionStateSnapshot,
+} from '../src/indexer.ts';
+import { MemoryDeadLetterSink } from '../src/dead_letter.ts';
+import { MultiIndexer } from '../src/multiindexer.ts';
+import { ProviderStreamer } from '../src/message_provider.ts';
+import type { IndexerExecutionOutcomeWithReceipt, StreamerMessage } from '../src/types.ts';
+import { makeBlock, MemoryProvider } from './helpers.ts';
+
+class MemorySaveLocation implements SaveLocation {
+  public height?: number;
+  public state?: TransactionStateSnapshot;
+  async load() {
+    return this.height;
+  }
+  async save(height: number) {
+    this.height = height;
+  }
+  async loadTransactionState() {
+    return this.state;
+  }
+  async saveTransactionState(state: TransactionStateSnapshot) {
+    this.state = state;
+  }
+}
+
+test('persisted transaction state is not timed out at the end of an adaptive run', async () => {
+  // T's receipt R executes in block 12, after the first run ends at 10
+  const blocks = [
+    makeBlock(5, { txs: [{ hash: 'T', receipt_ids: ['R'] }] }),
+    ...[6, 7, 8, 9, 10, 11].map((h) => makeBlock(h)),
+    makeBlock(12, { receipts: [{ id: 'R', tx_hash: 'T' }] }),
+    makeBlock(13),
+  ];
+  const save = new MemorySaveLocation();
+  const timeouts: string[] = [];
+  const completed: string[] = [];
+  const indexer = {
+    async onTransaction(tx: CompleteTransaction) {
+      completed.push(tx.transaction.transaction.hash);
+    },
+    async onTransactionTimeout(itx: IncompleteTransaction) {
+      timeouts.push(itx.transaction.transaction.hash);
+    },
+  };
+  const options = (end: number) => ({
+    stop_on_error: true,
+    ctrl_c_handler: false,
+    genesis_block_height: 0,
+    range: { kind: 'AutoContinue' as const, auto: new AutoContinue(save, 5, { kind: 'Height', height: end }) },
+    preprocess_transactions: { prefetch_blocks: 0, postfetch_blocks: 5, adaptive_postfetch: true },
+  });
+
+  await runIndexer(indexer, new ProviderStreamer(new MemoryProvider(blocks)), options(10));
+  assert.deepEqual(timeouts, []);
+  assert.equal(save.height, 10);
+  assert.deepEqual(save.state?.pending.map((p) => p.transaction.transaction.hash), ['T']);
+
+  await runIndexer(indexer, new ProviderStreamer(new MemoryProvider(blocks)), options(14));
+  assert.deepEqual(timeouts, []);
+  assert.deepEqual(completed, ['T']);
+});
+
+test('a second shutdown signal exits with 128 + signal number', async () => {
+  const child = spawn(process.execPath, ['--import', 'tsx', fileURLToPath(new URL('./fixtures/shutdown_child.ts', import.meta.url))], {
+    stdio: ['ignore', 'pipe', 'inherit'],
+  });
+  let out = '';
+  child.stdout.on('data', (d) => {
+    out += d;
+    if (out === 'ready\n') {
+      child.kill('SIGTERM');
+      setTimeout(() => child.kill('SIGTERM'), 100);
+    }
+  });
+  const [code] = await once(child, 'exit');
+  assert.equal(code, 143);
+  assert.equal(out, 'ready\nSIGTERM false\nSIGTERM true\n');
+});
+
+test('a failing block is retried as a unit with the transaction state rolled back', async () => {
+  // T completes in block 2 together with an unrelated receipt; onTransaction fails once
+  const blocks = [
+    makeBlock(1, { txs: [{ hash: 'T', receipt_ids: ['R'] }] }),
+    makeBlock(2, { receipts: [{ id: 'R', tx_hash: 'T' }, { id: 'X' }] }),
+  ];
+  const calls: string[] = [];
+  const completed: string[][] = [];
+  let failures = 1;
+  const dead_letter = new MemoryDeadLetterSink();
+  const indexer = new MultiIndexer([
+    {
+      async processBlock(block: StreamerMessage) {
+        calls.push(`block ${block.block.header.height}`);
+      },
+    },
+    {
+      async onTransaction(tx: CompleteTransaction) {
+        if (failures-- > 0) throw new Error('transient');
+        completed.push(tx.receipts.map((r) => r.receipt.receipt.receipt_id));
+      },
+    },
+  ]);
+  await runIndexer(indexer, new ProviderStreamer(new MemoryProvider(blocks)), {
+    stop_on_error: false,
+    ctrl_c_handler: false,
+    genesis_block_height: 0,
+    range: { kind: 'Range', start_inclusive: 1, end_exclusive: 3 },
+    preprocess_transactions: { prefetch_blocks: 0, postfetch_blocks: 0 },
+    retry: { attempts: 2, backoff_ms: 0 },
+    dead_letter,
+  });
+  // Block 2 ran again from the start, and T was rebuilt from the rolled back state
+  assert.deepEqual(calls, ['block 1', 'block 2', 'block 2']);
+  assert.deepEqual(completed, [['R']]);
+  assert.deepEqual(dead_letter.entries, []);
+});
+
+test('the last attempt dead-letters failing hooks and finishes the block', async () => {
+  const blocks = [makeBlock(1, { receipts: [{ id: 'A' }, { id: 'B' }] })];
+  const processed: string[] = [];
+  const dead_letter = new MemoryDeadLetterSink();
+  await runIndexer(
+    {
+      async processReceipt(r: IndexerExecutionOutcomeWithReceipt) {
+        if (r.receipt.receipt_id === 'A') throw new Error('always');
+        processed.push(r.receipt.receipt_id);
+      },
+    },
+    new ProviderStreamer(new MemoryProvider(blocks)),
+    {
+      stop_on_error: false,
+      ctrl_c_handler: false,
+      genesis_block_height: 0,
+      range: { kind: 'Range', start_inclusive: 1, end_exclusive: 2 },
+      retry: { attempts: 3, backoff_ms: 0 },
+      dead_letter,
+    },
+  );
+  // The first two attempts stop at A; the last one records it and goes on to B
+  assert.deepEqual(processed, ['B']);
+  assert.deepEqual(
+    dead_letter.entries.map(({ block_height, hook, receipt_id, attempts }) => ({ block_height, hook, receipt_id, attempts })),
+    [{ block_height: 1, hook: 'processReceipt', receipt_id: 'A', attempts: 3 }],
+  );
+});
+
+// T is included in block 3; R1 runs in block 5 and creates R2, which runs in block 9
+const pendingAcrossRestart = () => {
+  const blocks = Array.from({ length: 12 }, (_, i) => makeBlock(i + 1));
+  blocks[2] = makeBlock(3, { txs: [{ hash: 'T', receipt_ids: ['R1'] }] });
+  blocks[4] = makeBlock(5, { receipts: [{ id: 'R1', tx_hash: 'T', receipt_ids: ['R2'] }] });
+  blocks[8] = makeBlock(9, { receipts: [{ id: 'R2', tx_hash: 'T' }] });
+  return blocks;
+};
+
+function recordingIndexer() {
+  const completed: string[][] = [];
+  const receipts: string[] = [];
+  return {
+    completed,
+    receipts,
+    indexer: {
+      async onTransaction(tx: CompleteTransaction) {
+        completed.push([tx.transaction.transaction.hash, ...tx.receipts.map((r) => r.receipt.receipt.receipt_id)]);
+      },
+      async onReceipt(r: TransactionReceipt) {
+        receipts.push(r.receipt.receipt.receipt_id);
+      },
+    },
+  };
+}
+
+const autoContinueOptions = (save: MemorySaveLocation, end: number, prefetch_blocks: number): IndexerOptions => ({
+  stop_on_error: true,
+  ctrl_c_handler: false,
+  genesis_block_height: 0,
+  range: { kind: 'AutoContinue', auto: new AutoContinue(save, 3, { kind: 'Height', height: end }) },
+  preprocess_transactions: { prefetch_blocks, postfetch_blocks: 0 },
+});
+
+test('a restart in the middle of a pending transaction resumes from the snapshot', async () => {
+  const blocks = pendingAcrossRestart();
+  const save = new MemorySaveLocation();
+  const { indexer, completed, receipts } = recordingIndexer();
+
+  await runIndexer(indexer, new ProviderStreamer(new MemoryProvider(blocks)), autoContinueOptions(save, 7, 2));
+  assert.equal(save.height, 7);
+  assert.equal(save.state?.next_block_height, 7);
+  assert.deepEqual(save.state?.pending.map((p) => p.transaction.transaction.hash), ['T']);
+  assert.deepEqual(completed, []);
+
+  // A new process: only the snapshot carries T over, there is no prefetch
+  const provider = new MemoryProvider(blocks);
+  await runIndexer(indexer, new ProviderStreamer(provider), autoContinueOptions(save, 12, 2));
+  assert.equal(provider.requested[0], 7);
+  assert.deepEqual(completed, [['T', 'R1', 'R2']]);
+  assert.deepEqual(receipts, ['R1', 'R2']);
+  assert.deepEqual(save.state?.pending, []);
+});
+
+test('a snapshot that does not match the checkpoint is ignored in favor of prefetching', async () => {
+  const blocks = pendingAcrossRestart();
+  const save = new MemorySaveLocation();
+  const { indexer, completed } = recordingIndexer();
+  await runIndexer(indexer, new ProviderStreamer(new MemoryProvider(blocks)), autoContinueOptions(save, 7, 5));
+  // E.g. the checkpoint was moved by hand: the snapshot belongs to another position
+  save.state = { ...save.state!, next_block_height: 5 };
+
+  const provider = new MemoryProvider(blocks);
+  await runIndexer(indexer, new ProviderStreamer(provider), autoContinueOptions(save, 12, 5));
+  assert.equal(provider.requested[0], 2);
+  assert.deepEqual(completed, [['T', 'R1', 'R2']]);
+});
@@ -0,0 +1,125 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  LegacyLogRegistry,
+  legacyFtTransferParser,
+  jsonNftLogParser,
+  REF_SWAP_STANDARD_STRING,
+} from '../src/legacy_logs.ts';
+import { EventRouterIndexer, type EventContext } from '../src/event_router.ts';
+import { makeBlock } from './helpers.ts';
+
+const registry = new LegacyLogRegistry();
+
+test('built-in parsers normalize known legacy logs', () => {
+  assert.deepEqual(registry.parse('Transfer 100 from a.near to b.near', 'abc.tkn.near'), {
+    parser: 'ft_transfer_text',
+    event: {
+      standard: 'nep141',
+      version: '1.0.0',
+      event: 'ft_transfer',
+      data: [{ old_owner_id: 'a.near', new_owner_id: 'b.near', amount: '100' }],
+    },
+  });
+
+  const deposit = registry.parse('Deposit 1000000000000000000000000 NEAR to alice.near', 'wrap.near');
+  assert.equal(deposit?.parser, 'wrap_near');
+  assert.equal(deposit?.event.event, 'ft_mint');
+  assert.deepEqual(deposit?.event.data, [{ owner_id: 'alice.near', amount: '1000000000000000000000000' }]);
+  const withdraw = registry.parse('Withdraw 5 NEAR from alice.near', 'wrap.near');
+  assert.equal(withdraw?.event.event, 'ft_burn');
+  assert.deepEqual(withdraw?.event.data, [{ owner_id: 'alice.near', amount: '5' }]);
+  // wrap.near also logs plain transfers
+  assert.equal(registry.parse('Transfer 7 from a.near to b.near', 'wrap.near')?.event.event, 'ft_transfer');
+
+  const swap = registry.parse('Swapped 10 wrap.near for 20 usdt.near, total fee 3, admin fee 1', 'v2.ref-finance.near');
+  assert.equal(swap?.parser, 'ref_swap');
+  assert.equal(swap?.event.standard, REF_SWAP_STANDARD_STRING);
+  assert.deepEqual(swap?.event.data, [
+    { token_in: 'wrap.near', amount_in: '10', token_out: 'usdt.near', amount_out: '20' },
+  ]);
+
+  const transfer = registry.parse(
+    '{"type":"nft_transfer","params":{"token_id":"1:1","sender_id":"a.near","receiver_id":"b.near"}}',
+    'x.paras.near',
+  );
+  assert.equal(transfer?.parser, 'json_nft');
+  assert.equal(transfer?.event.standard, 'nep171');
+  assert.deepEqual(transfer?.event.data, [
+    { old_owner_id: 'a.near', new_owner_id: 'b.near', token_ids: ['1:1'], memo: undefined },
+  ]);
+  const mint = registry.parse('{"type":"nft_mint","params":{"token_id":"2:1","owner_id":"a.near"}}', 'x.paras.near');
+  assert.equal(mint?.event.event, 'nft_mint');
+  assert.deepEqual(mint?.event.data, [{ owner_id: 'a.near', token_ids: ['2:1'], memo: undefined }]);
+});
+
+test('malformed legacy logs are not parsed', () => {
+  assert.equal(registry.parse('Transfer lots from a.near to b.near', 'abc.tkn.near'), undefined);
+  assert.equal(registry.parse('Transfer 100 from A..near to b.near', 'abc.tkn.near'), undefined);
+  assert.equal(registry.parse('Transfer 100 from a.near', 'abc.tkn.near'), undefined);
+  assert.equal(registry.parse('Deposit -5 NEAR to alice.near', 'wrap.near'), undefined);
+  assert.equal(registry.parse('Swapped 10 wrap.near for x usdt.near', 'v2.ref-finance.near'), undefined);
+  assert.equal(registry.parse('{"type":"nft_transfer","params":{', 'x.paras.near'), undefined);
+  assert.equal(
+    registry.parse('{"type":"nft_transfer","params":{"token_id":1,"sender_id":"a.near","receiver_id":"b.near"}}', 'x.paras.near'),
+    undefined,
+  );
+  assert.equal(registry.parse('{"type":"nft_burn","params":{"token_id":"1"}}', 'x.paras.near'), undefined);
+  assert.equal(registry.parse('hello', 'wrap.near'), undefined);
+});
+
+test('built-in parsers ignore the same text from other contracts', () => {
+  assert.equal(registry.parse('Transfer 100 from a.near to b.near', 'spoof.near'), undefined);
+  assert.equal(registry.parse('Transfer 100 from a.near to b.near', 'tkn.near'), undefined);
+  assert.equal(registry.parse('Deposit 5 NEAR to alice.near', 'wrap-near.near'), undefined);
+  assert.equal(registry.parse('Swapped 10 wrap.near for 20 usdt.near', 'ref.spoof.near'), undefined);
+  assert.equal(
+    registry.parse('{"type":"nft_mint","params":{"token_id":"1","owner_id":"a.near"}}', 'x.paras.near.spoof.near'),
+    undefined,
+  );
+
+  // Callers opt in to other contracts
+  const open = new LegacyLogRegistry([
+    { ...legacyFtTransferParser, contract: '*' },
+    { ...jsonNftLogParser, contract: '*' },
+  ]);
+  assert.equal(open.parse('Transfer 100 from a.near to b.near', 'other.near')?.event.event, 'ft_transfer');
+  assert.equal(
+    open.parse('{"type":"nft_mint","params":{"token_id":"1","owner_id":"a.near"}}', 'other.near')?.event.event,
+    'nft_mint',
+  );
+});
+
+test('EventRouterIndexer routes legacy logs alongside NEP-297 events', async () => {
+  const nep297 =
+    'EVENT_JSON:' +
+    JSON.stringify({
+      standard: 'nep141',
+      version: '1.0.0',
+      event: 'ft_transfer',
+      data: [{ old_owner_id: 'c.near', new_owner_id: 'd.near', amount: '1' }],
+    });
+  const seen: Array<{ contract: string; amount: string; legacy?: string; log_index: number }> = [];
+  const invalid: string[] = [];
+  const router = new EventRouterIndexer({
+    legacy_logs: new LegacyLogRegistry(),
+    onInvalidEvent: (log) => invalid.push(log),
+  }).on({ standard: 'nep141', event: 'ft_transfer' }, (transfers, ctx: EventContext) => {
+    for (const t of transfers) {
+      seen.push({ contract: ctx.contract_id, amount: t.amount, legacy: ctx.legacy_parser, log_index: ctx.log_index });
+    }
+  });
+  const block = makeBlock(1, {
+    receipts: [
+      { id: 'r1', receiver_id: 'abc.tkn.near', logs: ['Transfer 100 from a.near to b.near', nep297] },
+      { id: 'r2', receiver_id: 'spoof.near', logs: ['Transfer 999 from a.near to b.near'] },
+      { id: 'r3', receiver_id: 'abc.tkn.near', logs: ['Transfer nope from a.near to b.near', 'EVENT_JSON:{'] },
+    ],
+  });
+  for (const r of block.shards[0].receipt_execution_outcomes) await router.processReceipt(r, block);
+  assert.deepEqual(seen, [
+    { contract: 'abc.tkn.near', amount: '100', legacy: 'ft_transfer_text', log_index: 0 },
+    { contract: 'abc.tkn.near', amount: '1', legacy: undefined, log_index: 1 },
+  ]);
+  assert.deepEqual(invalid, ['EVENT_JSON:{']);
+});
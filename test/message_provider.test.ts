@@ -0,0 +1,36 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ParallelProviderStreamer, ProviderStreamer, type MessageProvider } from '../src/message_provider.ts';
+import type { BlockHeight, StreamerMessage } from '../src/types.ts';
+import { makeBlock } from './helpers.ts';
+
+// Produces a block for every height; every other height is skipped
+class EndlessProvider implements MessageProvider {
+  public requested: BlockHeight[] = [];
+  async getMessage(height: BlockHeight): Promise<StreamerMessage | null> {
+    this.requested.push(height);
+    await new Promise((r) => setImmediate(r));
+    return height % 2 ? makeBlock(height) : null;
+  }
+}
+
+for (const [name, create] of [
+  ['ProviderStreamer', (p: MessageProvider) => new ProviderStreamer(p, 5)],
+  ['ParallelProviderStreamer', (p: MessageProvider) => new ParallelProviderStreamer(p, 2, { buffer_size: 8 })],
+] as const) {
+  test(`${name} stops fetching once the consumer breaks`, async () => {
+    const provider = new EndlessProvider();
+    const { handle, receiver } = await create(provider).stream(1);
+    const seen: BlockHeight[] = [];
+    for await (const msg of receiver) {
+      seen.push(msg.block.header.height);
+      if (seen.length === 3) break;
+    }
+    await handle; // ends although the range is unbounded
+    assert.deepEqual(seen, [1, 3, 5]);
+    const fetched = provider.requested.length;
+    assert.ok(fetched < 30, `fetched ${fetched} heights`);
+    await new Promise((r) => setTimeout(r, 20));
+    assert.equal(provider.requested.length, fetched);
+  });
+}
@@ -0,0 +1,85 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { NearRpcProvider } from '../src/near_rpc.ts';
+import { runIndexer, type CompleteTransaction } from '../src/indexer.ts';
+import { ProviderStreamer } from '../src/message_provider.ts';
+import { FIRST, LAST, ftLog, startMockRpcServer } from './fixtures/mock_rpc_server.ts';
+
+test('NearRpcProvider maps RPC blocks into StreamerMessages', async () => {
+  const rpc = await startMockRpcServer();
+  try {
+    const provider = new NearRpcProvider(rpc.url);
+
+    const first = (await provider.getMessage(100))!;
+    assert.equal(first.block.header.height, 100);
+    assert.equal(first.block.header.hash, 'block-100');
+    assert.equal(first.block.header.prev_hash, 'block-99');
+    assert.equal(first.shards.length, 1);
+    const [tx] = first.shards[0].chunk!.transactions;
+    assert.equal(tx.transaction.hash, 'tx-100');
+    assert.equal(tx.transaction.signer_id, 'alice.near');
+    assert.deepEqual(tx.outcome.execution_outcome.outcome.status, { kind: 'SuccessReceiptId', id: 'rid-100' });
+    // Nothing before the first streamed block is known
+    assert.deepEqual(first.shards[0].receipt_execution_outcomes, []);
+
+    const second = (await provider.getMessage(101))!;
+    const [executed] = second.shards[0].receipt_execution_outcomes;
+    assert.equal(executed.tx_hash, 'tx-100');
+    assert.equal(executed.receipt.receipt_id, 'rid-100');
+    assert.equal(executed.receipt.receiver_id, 'token.near');
+    assert.deepEqual(executed.execution_outcome.outcome.status, { kind: 'SuccessValue', value: '' });
+    assert.deepEqual(executed.execution_outcome.outcome.logs, [ftLog('100')]);
+
+    // Skipped height; the receipt of tx-101 waits for the next produced block
+    assert.equal(await provider.getMessage(102), null);
+    const afterSkip = (await provider.getMessage(103))!;
+    assert.deepEqual(
+      afterSkip.shards[0].receipt_execution_outcomes.map((o) => o.receipt.receipt_id),
+      ['rid-101'],
+    );
+
+    // Not produced yet
+    assert.equal(await provider.getMessage(LAST + 1), null);
+  } finally {
+    await rpc.close();
+  }
+});
+
+test('NearRpcProvider fetches receipts missing from the transaction status', async () => {
+  const rpc = await startMockRpcServer({ omit_receipts: [100] });
+  try {
+    const provider = new NearRpcProvider(rpc.url);
+    await provider.getMessage(100);
+    assert.ok(!rpc.calls.includes('EXPERIMENTAL_receipt'));
+    const [executed] = (await provider.getMessage(101))!.shards[0].receipt_execution_outcomes;
+    assert.equal(executed.receipt.receipt_id, 'rid-100');
+    assert.equal(rpc.calls.filter((m) => m === 'EXPERIMENTAL_receipt').length, 1);
+  } finally {
+    await rpc.close();
+  }
+});
+
+test('runIndexer over NearRpcProvider completes every transaction in the range', async () => {
+  const rpc = await startMockRpcServer();
+  try {
+    const completed: string[] = [];
+    await runIndexer(
+      {
+        async onTransaction(tx: CompleteTransaction) {
+          completed.push(tx.transaction.transaction.hash);
+        },
+      },
+      new ProviderStreamer(new NearRpcProvider(rpc.url, { network: 'localnet' })),
+      {
+        stop_on_error: true,
+        ctrl_c_handler: false,
+        range: { kind: 'Range', start_inclusive: FIRST, end_exclusive: LAST },
+        // The node has nothing before FIRST; postfetch lets the last transaction complete
+        preprocess_transactions: { prefetch_blocks: 0, postfetch_blocks: 2, adaptive_postfetch: true },
+      },
+    );
+    assert.deepEqual(completed, ['tx-100', 'tx-101', 'tx-103', 'tx-104']);
+  } finally {
+    await rpc.close();
+  }
+});
@@ -0,0 +1,478 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  assertValidEvent,
+  decodeAction,
+  EventValidationError,
+  eventPayloadIssues,
+  findFunctionCalls,
+  getFunctionCalls,
+  getSocialDbSets,
+  getStorageManagementCalls,
+  isU128String,
+  isValidAccountId,
+  validateFtEvent,
+  validateMtEvent,
+  validateNftEvent,
+  type DecodedAction,
+  type EventLogData,
+  type EventValidationIssue,
+  type FunctionCallArgs,
+  type SocialDbEntry,
+  type StorageManagementCall,
+} from '../src/near_utils.ts';
+import type { ActionView } from '../src/types.ts';
+import { jsonArgs, makeBlock, type TestReceipt, type TestTx } from './helpers.ts';
+
+const txOf = (tx: TestTx) => makeBlock(1, { txs: [tx] }).shards[0].chunk!.transactions[0];
+const receiptOf = (receipt: TestReceipt) => makeBlock(1, { receipts: [receipt] }).shards[0].receipt_execution_outcomes[0];
+const call = (method_name: string, args: string, deposit = '0') => ({
+  FunctionCall: { method_name, args, gas: 30_000_000_000_000, deposit },
+});
+
+test('decodeAction tags every action kind', () => {
+  const accessKey = { nonce: 0, permission: 'FullAccess' as const };
+  const cases: [unknown, DecodedAction][] = [
+    ['CreateAccount', { kind: 'CreateAccount' }],
+    [{ DeployContract: { code: 'AGFzbQ==' } }, { kind: 'DeployContract', code: 'AGFzbQ==' }],
+    [{ Transfer: { deposit: '5' } }, { kind: 'Transfer', deposit: '5' }],
+    [
+      { Stake: { stake: '7', public_key: 'ed25519:k' } },
+      { kind: 'Stake', stake: '7', public_key: 'ed25519:k' },
+    ],
+    [
+      { AddKey: { public_key: 'ed25519:k', access_key: accessKey } },
+      { kind: 'AddKey', public_key: 'ed25519:k', access_key: accessKey },
+    ],
+    [{ DeleteKey: { public_key: 'ed25519:k' } }, { kind: 'DeleteKey', public_key: 'ed25519:k' }],
+    [{ DeleteAccount: { beneficiary_id: 'bob.near' } }, { kind: 'DeleteAccount', beneficiary_id: 'bob.near' }],
+    // Unrecognized shapes are kept as they are
+    [{ DeployGlobalContract: { code: '' } }, { kind: 'Unknown', raw: { DeployGlobalContract: { code: '' } } }],
+    [null, { kind: 'Unknown', raw: null }],
+    ['NotAnAction', { kind: 'Unknown', raw: 'NotAnAction' }],
+  ];
+  for (const [action, expected] of cases) {
+    assert.deepEqual(decodeAction(action as ActionView), expected, JSON.stringify(action));
+  }
+});
+
+test('decodeAction decodes function call args as JSON or falls back to bytes', () => {
+  const cases: [string, FunctionCallArgs][] = [
+    [jsonArgs({ receiver_id: 'bob.near', amount: '1' }), { kind: 'Json', value: { receiver_id: 'bob.near', amount: '1' } }],
+    [jsonArgs(42), { kind: 'Json', value: 42 }],
+    // Not JSON
+    [Buffer.from('plain text').toString('base64'), { kind: 'Bytes', bytes: new Uint8Array(Buffer.from('plain text')) }],
+    [Buffer.from([0xff, 0x00, 0x01]).toString('base64'), { kind: 'Bytes', bytes: new Uint8Array([0xff, 0x00, 0x01]) }],
+    // No args, and malformed base64 that decodes to nothing
+    ['', { kind: 'Bytes', bytes: new Uint8Array() }],
+    ['!!!', { kind: 'Bytes', bytes: new Uint8Array() }],
+  ];
+  for (const [args, expected] of cases) {
+    const decoded = decodeAction(call('m', args) as ActionView);
+    assert.equal(decoded.kind, 'FunctionCall');
+    assert.deepEqual(decoded.kind === 'FunctionCall' && decoded.args, expected, args);
+  }
+});
+
+test('decodeAction decodes the actions inside a Delegate action', () => {
+  const decoded = decodeAction({
+    Delegate: {
+      delegate_action: {
+        sender_id: 'alice.near',
+        receiver_id: 'token.near',
+        actions: [call('ft_transfer', jsonArgs({ amount: '1' }), '1'), 'CreateAccount'],
+        nonce: 3,
+        max_block_height: 100,
+        public_key: 'ed25519:k',
+      },
+      signature: 'ed25519:sig',
+    },
+  } as ActionView);
+  assert.deepEqual(decoded, {
+    kind: 'Delegate',
+    sender_id: 'alice.near',
+    receiver_id: 'token.near',
+    actions: [
+      {
+        kind: 'FunctionCall',
+        method_name: 'ft_transfer',
+        args: { kind: 'Json', value: { amount: '1' } },
+        gas: 30_000_000_000_000,
+        deposit: '1',
+      },
+      { kind: 'CreateAccount' },
+    ],
+    nonce: 3,
+    max_block_height: 100,
+    public_key: 'ed25519:k',
+    signature: 'ed25519:sig',
+  });
+});
+
+test('getFunctionCalls flattens transactions, receipts and delegated calls', () => {
+  const delegate = {
+    Delegate: {
+      delegate_action: {
+        sender_id: 'relayed.near',
+        receiver_id: 'token.near',
+        actions: [call('ft_transfer', jsonArgs({ amount: '2' }))],
+        nonce: 1,
+        max_block_height: 100,
+        public_key: 'ed25519:k',
+      },
+      signature: 'ed25519:sig',
+    },
+  };
+  const cases: [ReturnType<typeof txOf> | ReturnType<typeof receiptOf>, [string, string, string, boolean][]][] = [
+    [txOf({ hash: 't1', actions: [{ Transfer: { deposit: '1' } }] }), []],
+    [
+      txOf({ hash: 't2', signer_id: 'alice.near', receiver_id: 'c.near', actions: [call('a', ''), call('b', '')] }),
+      [
+        ['c.near', 'alice.near', 'a', false],
+        ['c.near', 'alice.near', 'b', false],
+      ],
+    ],
+    // The relayer signs; the delegated call is made by the sender on the delegate's receiver
+    [
+      txOf({ hash: 't3', signer_id: 'relayer.near', receiver_id: 'relayed.near', actions: [delegate] }),
+      [['token.near', 'relayed.near', 'ft_transfer', true]],
+    ],
+    // Receipts are called by their predecessor
+    [
+      receiptOf({ id: 'r1', predecessor_id: 'dao.near', receiver_id: 'c.near', actions: [call('vote', '')] }),
+      [['c.near', 'dao.near', 'vote', false]],
+    ],
+  ];
+  for (const [item, expected] of cases) {
+    assert.deepEqual(
+      getFunctionCalls(item).map((c) => [c.contract_id, c.caller_id, c.method_name, c.delegated]),
+      expected,
+    );
+  }
+});
+
+test('findFunctionCalls filters by contract and method and parses JSON args', () => {
+  const tx = txOf({
+    hash: 't1',
+    receiver_id: 'token.near',
+    actions: [
+      call('ft_transfer', jsonArgs({ amount: '1' })),
+      call('ft_transfer', Buffer.from('not json').toString('base64')),
+      call('ft_transfer', '%%%'),
+      call('storage_deposit', jsonArgs({})),
+    ],
+  });
+  assert.deepEqual(
+    findFunctionCalls<{ amount: string }>(tx, 'token.near', 'ft_transfer').map((c) => c.json),
+    [{ amount: '1' }, undefined, undefined],
+  );
+  assert.deepEqual(findFunctionCalls(tx, 'other.near', 'ft_transfer'), []);
+  assert.deepEqual(findFunctionCalls(tx, 'token.near', 'ft_burn'), []);
+});
+
+test('isValidAccountId follows the nearcore account id rules', () => {
+  const cases: [unknown, boolean][] = [
+    ['alice.near', true],
+    ['a1', true],
+    ['sub.alice-b_c.near', true],
+    ['0000000000000000000000000000000000000000000000000000000000000000', true], // implicit, 64 chars
+    ['a', false], // too short
+    ['a'.repeat(65), false],
+    ['Alice.near', false],
+    ['alice..near', false],
+    ['.alice.near', false],
+    ['alice.near.', false],
+    ['alice--b.near', false],
+    ['alice b.near', false],
+    ['alice@near', false],
+    ['', false],
+    [42, false],
+    [null, false],
+    [undefined, false],
+  ];
+  for (const [account, valid] of cases) assert.equal(isValidAccountId(account), valid, String(account));
+});
+
+test('isU128String accepts decimal strings up to u128::MAX', () => {
+  const cases: [unknown, boolean][] = [
+    ['0', true],
+    ['1000000000000000000000000', true],
+    ['340282366920938463463374607431768211455', true], // u128::MAX
+    ['340282366920938463463374607431768211456', false],
+    ['1'.repeat(40), false],
+    ['', false],
+    ['-1', false],
+    ['1.5', false],
+    ['1e3', false],
+    [' 1', false],
+    ['0x10', false],
+    [10, false],
+    [10n, false],
+    [null, false],
+  ];
+  for (const [value, valid] of cases) assert.equal(isU128String(value), valid, String(value));
+});
+
+const ftEvent = (event: string, data: unknown, version = '1.0.0'): EventLogData<any> => ({
+  standard: 'nep141',
+  version,
+  event,
+  data,
+});
+
+test('eventPayloadIssues reports the path of each malformed field', () => {
+  const transfer = { old_owner_id: 'alice.near', new_owner_id: 'bob.near', amount: '1' };
+  const cases: [EventLogData<unknown>, string[]][] = [
+    [ftEvent('ft_transfer', [transfer]), []],
+    [ftEvent('ft_transfer', [{ ...transfer, memo: null, extra: 1 }]), []],
+    [ftEvent('ft_transfer', { ...transfer }), ['data']],
+    [ftEvent('ft_transfer', [transfer, null, 'x']), ['data[1]', 'data[2]']],
+    [ftEvent('ft_transfer', [{ ...transfer, new_owner_id: 'Bob' }]), ['data[0].new_owner_id']],
+    [ftEvent('ft_transfer', [{ ...transfer, amount: 1 }]), ['data[0].amount']],
+    [ftEvent('ft_transfer', [{ ...transfer, amount: '-1', memo: 3 }]), ['data[0].amount', 'data[0].memo']],
+    [ftEvent('ft_mint', [{ amount: '1' }]), ['data[0].owner_id']],
+    [
+      { standard: 'nep171', version: '1.0.0', event: 'nft_mint', data: [{ owner_id: 'a.near', token_ids: [] }] },
+      ['data[0].token_ids'],
+    ],
+    [
+      {
+        standard: 'nep171',
+        version: '1.0.0',
+        event: 'nft_burn',
+        data: [{ owner_id: 'a.near', authorized_id: 'X', token_ids: ['1'] }],
+      },
+      ['data[0].authorized_id'],
+    ],
+    // No schema
+    [ftEvent('ft_something_else', 'anything'), []],
+    [{ standard: 'other', version: '1.0.0', event: 'ft_transfer', data: null }, []],
+  ];
+  for (const [evt, paths] of cases) {
+    assert.deepEqual(
+      eventPayloadIssues(evt).map((i) => i.path),
+      paths,
+      JSON.stringify(evt),
+    );
+  }
+});
+
+test('validateFtEvent rejects malformed payloads in strict mode and reports them in lenient mode', () => {
+  const bad = ftEvent('ft_mint', [{ owner_id: 'alice.near', amount: 'lots' }]);
+  const good = ftEvent('ft_mint', [{ owner_id: 'alice.near', amount: '10' }]);
+  const reported: EventValidationIssue[][] = [];
+  const onIssues = (issues: EventValidationIssue[]) => reported.push(issues);
+
+  assert.equal(validateFtEvent(good, 'ft_mint'), true);
+  assert.equal(validateFtEvent(bad, 'ft_mint', { onIssues }), false);
+  assert.equal(validateFtEvent(bad, 'ft_mint', { mode: 'lenient', onIssues }), true);
+  assert.equal(reported.length, 2);
+  assert.deepEqual(reported[0], [{ path: 'data[0].amount', message: 'expected a u128 decimal string', value: 'lots' }]);
+
+  // Wrong event, standard or major version fail regardless of the mode
+  assert.equal(validateFtEvent(good, 'ft_burn', { mode: 'lenient' }), false);
+  assert.equal(validateFtEvent(ftEvent('ft_mint', good.data, '2.0.0'), 'ft_mint', { mode: 'lenient' }), false);
+  assert.equal(validateFtEvent(ftEvent('ft_mint', good.data, '1.1.0'), 'ft_mint'), true);
+  assert.equal(validateNftEvent(good, 'nft_mint', { mode: 'lenient' }), false);
+  assert.equal(reported.length, 2);
+});
+
+test('assertValidEvent throws an EventValidationError listing the issues', () => {
+  const good = ftEvent('ft_burn', [{ owner_id: 'alice.near', amount: '1' }]);
+  assert.equal(assertValidEvent(good), good);
+  assert.throws(
+    () => assertValidEvent(ftEvent('ft_burn', [{ owner_id: 'Alice', amount: '1' }])),
+    (e: unknown) => {
+      assert.ok(e instanceof EventValidationError);
+      assert.equal(e.name, 'EventValidationError');
+      assert.equal(e.standard, 'nep141');
+      assert.equal(e.event, 'ft_burn');
+      assert.deepEqual(
+        e.issues.map((i) => i.path),
+        ['data[0].owner_id'],
+      );
+      assert.equal(e.message, 'Invalid nep141 ft_burn event: data[0].owner_id: expected a valid account id');
+      return true;
+    },
+  );
+});
+
+test('validateMtEvent checks NEP-245 amounts against token ids', () => {
+  const mtEvent = (event: string, data: unknown): EventLogData<any> => ({ standard: 'nep245', version: '1.0.0', event, data });
+  const transfer = { old_owner_id: 'alice.near', new_owner_id: 'bob.near', token_ids: ['a', 'b'], amounts: ['1', '2'] };
+  const cases: [EventLogData<any>, 'mt_mint' | 'mt_burn' | 'mt_transfer', boolean][] = [
+    [mtEvent('mt_transfer', [transfer]), 'mt_transfer', true],
+    [mtEvent('mt_transfer', [{ ...transfer, authorized_id: 'market.near', memo: 'm' }]), 'mt_transfer', true],
+    [mtEvent('mt_mint', [{ owner_id: 'alice.near', token_ids: ['a'], amounts: ['1'] }]), 'mt_mint', true],
+    [mtEvent('mt_burn', [{ owner_id: 'alice.near', token_ids: ['a'], amounts: ['1'] }]), 'mt_burn', true],
+    // One amount per token id
+    [mtEvent('mt_transfer', [{ ...transfer, amounts: ['1'] }]), 'mt_transfer', false],
+    [mtEvent('mt_transfer', [{ ...transfer, amounts: [] }]), 'mt_transfer', false],
+    [mtEvent('mt_transfer', [{ ...transfer, amounts: ['1', 2] }]), 'mt_transfer', false],
+    [mtEvent('mt_transfer', [{ ...transfer, amounts: '3' }]), 'mt_transfer', false],
+    [mtEvent('mt_transfer', [{ ...transfer, token_ids: [1, 2] }]), 'mt_transfer', false],
+    [mtEvent('mt_mint', [{ owner_id: 'Alice', token_ids: ['a'], amounts: ['1'] }]), 'mt_mint', false],
+    [mtEvent('mt_mint', [{ owner_id: 'alice.near', token_ids: ['a'], amounts: ['1'] }]), 'mt_burn', false],
+  ];
+  for (const [evt, name, valid] of cases) assert.equal(validateMtEvent(evt, name), valid, JSON.stringify(evt));
+
+  const issues = eventPayloadIssues(mtEvent('mt_transfer', [{ ...transfer, amounts: ['1'] }]));
+  assert.deepEqual(issues, [{ path: 'data[0].amounts', message: 'expected one amount per token id', value: ['1'] }]);
+});
+
+test('metadata update events are validated', () => {
+  const event = (standard: string, event: string, data: unknown): EventLogData<any> => ({
+    standard,
+    version: '1.0.0',
+    event,
+    data,
+  });
+  assert.equal(validateFtEvent(event('nep141', 'ft_metadata_update', [{}]), 'ft_metadata_update'), true);
+  assert.equal(validateFtEvent(event('nep141', 'ft_metadata_update', [{ memo: 1 }]), 'ft_metadata_update'), false);
+  assert.equal(validateFtEvent(event('nep141', 'ft_metadata_update', {}), 'ft_metadata_update'), false);
+  assert.equal(
+    validateNftEvent(event('nep171', 'contract_metadata_update', [{ memo: null }]), 'contract_metadata_update'),
+    true,
+  );
+  assert.equal(
+    validateNftEvent(event('nep171', 'nft_metadata_update', [{ token_ids: ['1', '2'] }]), 'nft_metadata_update'),
+    true,
+  );
+  assert.equal(validateNftEvent(event('nep171', 'nft_metadata_update', [{}]), 'nft_metadata_update'), false);
+  assert.equal(
+    validateNftEvent(event('nep171', 'nft_metadata_update', [{ token_ids: [1] }]), 'nft_metadata_update'),
+    false,
+  );
+});
+
+test('getStorageManagementCalls decodes NEP-145 calls and skips invalid args', () => {
+  const cases: [string, string, StorageManagementCall[]][] = [
+    [
+      'storage_deposit',
+      jsonArgs({}),
+      [
+        {
+          kind: 'storage_deposit',
+          contract_id: 'token.near',
+          caller_id: 'alice.near',
+          account_id: 'alice.near',
+          registration_only: false,
+          deposit: '5',
+        },
+      ],
+    ],
+    [
+      'storage_deposit',
+      jsonArgs({ account_id: 'bob.near', registration_only: true }),
+      [
+        {
+          kind: 'storage_deposit',
+          contract_id: 'token.near',
+          caller_id: 'alice.near',
+          account_id: 'bob.near',
+          registration_only: true,
+          deposit: '5',
+        },
+      ],
+    ],
+    // Only a literal true counts
+    [
+      'storage_deposit',
+      jsonArgs({ registration_only: 'true' }),
+      [
+        {
+          kind: 'storage_deposit',
+          contract_id: 'token.near',
+          caller_id: 'alice.near',
+          account_id: 'alice.near',
+          registration_only: false,
+          deposit: '5',
+        },
+      ],
+    ],
+    // No args at all: the caller registers itself
+    [
+      'storage_deposit',
+      '',
+      [
+        {
+          kind: 'storage_deposit',
+          contract_id: 'token.near',
+          caller_id: 'alice.near',
+          account_id: 'alice.near',
+          registration_only: false,
+          deposit: '5',
+        },
+      ],
+    ],
+    ['storage_deposit', jsonArgs({ account_id: 'Not Valid' }), []],
+    ['storage_deposit', jsonArgs({ account_id: 7 }), []],
+    ['storage_deposit', jsonArgs('alice.near'), []],
+    ['storage_withdraw', jsonArgs({}), [{ kind: 'storage_withdraw', contract_id: 'token.near', caller_id: 'alice.near', amount: undefined }]],
+    [
+      'storage_withdraw',
+      jsonArgs({ amount: '100' }),
+      [{ kind: 'storage_withdraw', contract_id: 'token.near', caller_id: 'alice.near', amount: '100' }],
+    ],
+    ['storage_withdraw', jsonArgs({ amount: 100 }), []],
+    ['storage_withdraw', jsonArgs({ amount: '-1' }), []],
+    [
+      'storage_unregister',
+      jsonArgs({ force: true }),
+      [{ kind: 'storage_unregister', contract_id: 'token.near', caller_id: 'alice.near', force: true }],
+    ],
+    [
+      'storage_unregister',
+      jsonArgs({}),
+      [{ kind: 'storage_unregister', contract_id: 'token.near', caller_id: 'alice.near', force: false }],
+    ],
+    ['storage_balance_of', jsonArgs({ account_id: 'alice.near' }), []],
+  ];
+  for (const [method, args, expected] of cases) {
+    const tx = txOf({ hash: 't', signer_id: 'alice.near', receiver_id: 'token.near', actions: [call(method, args, '5')] });
+    assert.deepEqual(getStorageManagementCalls(tx), expected, `${method} ${args}`);
+  }
+});
+
+test('getSocialDbSets flattens set calls into keys', () => {
+  const set = (data: unknown, receiver_id = 'social.near') =>
+    txOf({ hash: 't', signer_id: 'alice.near', receiver_id, actions: [call('set', jsonArgs({ data }))] });
+  const entry = (account_id: string, key: string, value: string | null): SocialDbEntry => ({
+    contract_id: 'social.near',
+    caller_id: 'alice.near',
+    account_id,
+    key,
+    value,
+  });
+  const cases: [ReturnType<typeof txOf>, SocialDbEntry[]][] = [
+    [
+      set({ 'alice.near': { profile: { name: 'Alice', image: { url: 'x' } }, post: { main: '{}' } } }),
+      [
+        entry('alice.near', 'profile/name', 'Alice'),
+        entry('alice.near', 'profile/image/url', 'x'),
+        entry('alice.near', 'post/main', '{}'),
+      ],
+    ],
+    // A null deletes; '' is the node's own value
+    [
+      set({ 'alice.near': { widget: { '': 'source', metadata: null } } }),
+      [entry('alice.near', 'widget', 'source'), entry('alice.near', 'widget/metadata', null)],
+    ],
+    // Invalid account keys and non-string leaves are skipped
+    [
+      set({ 'Not Valid': { a: 'b' }, 'bob.near': { n: 1, t: true, l: ['x'], ok: 'y' } }),
+      [entry('bob.near', 'ok', 'y')],
+    ],
+    [set('not an object'), []],
+    [set(null), []],
+    [set({ 'alice.near': { a: 'b' } }, 'other.near'), []],
+    [txOf({ hash: 't', receiver_id: 'social.near', actions: [call('set', '!!!')] }), []],
+  ];
+  for (const [tx, expected] of cases) assert.deepEqual(getSocialDbSets(tx), expected);
+
+  // The contract can be chosen, e.g. for testnet
+  assert.deepEqual(
+    getSocialDbSets(set({ 'alice.testnet': { a: 'b' } }, 'v1.social08.testnet'), 'v1.social08.testnet'),
+    [{ ...entry('alice.testnet', 'a', 'b'), contract_id: 'v1.social08.testnet' }],
+  );
+});
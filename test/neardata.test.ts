@@ -0,0 +1,69 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { NeardataProvider, type Fetcher, type LiveTailOptions } from '../src/neardata.ts';
+import type { BlockHeight } from '../src/types.ts';
+import { makeBlock } from './helpers.ts';
+
+// A fetcher that answers null for the first `nullCalls(h)` requests of each height
+function countingFetcher(nullCalls: (height: BlockHeight) => number) {
+  const calls = new Map<BlockHeight, number>();
+  const fetcher: Fetcher = async (_cfg, height) => {
+    const n = (calls.get(height) ?? 0) + 1;
+    calls.set(height, n);
+    return n > nullCalls(height) ? makeBlock(height) : null;
+  };
+  return { fetcher, calls };
+}
+
+async function tail(fetcher: Fetcher, options: LiveTailOptions, first: BlockHeight, lastExclusive: BlockHeight) {
+  const provider = NeardataProvider.mainnet(fetcher, { poll_interval_ms: 1, ...options });
+  const { handle, receiver } = await provider.stream(first, lastExclusive);
+  const heights: BlockHeight[] = [];
+  for await (const msg of receiver) heights.push(msg.block.header.height);
+  await handle;
+  return heights;
+}
+
+test('a null close to the head is polled until the block is served', async () => {
+  const { fetcher, calls } = countingFetcher((h) => (h === 9 ? 2 : 0));
+  const heights = await tail(fetcher, { head: async () => 10 }, 8, 11);
+  assert.deepEqual(heights, [8, 9, 10]);
+  assert.equal(calls.get(9), 3);
+});
+
+test('a null at least missing_block_depth below the head is a skipped height', async () => {
+  const { fetcher, calls } = countingFetcher((h) => (h === 5 ? Infinity : 0));
+  assert.deepEqual(await tail(fetcher, { head: async () => 10 }, 4, 7), [4, 6]);
+  assert.equal(calls.get(5), 1);
+});
+
+test('a height that stays null is skipped once the head moves past it', async () => {
+  let head = 9;
+  const { fetcher, calls } = countingFetcher((h) => (h === 9 ? Infinity : 0));
+  const heights = await tail(fetcher, { head: async () => head++, missing_block_depth: 2 }, 8, 11);
+  assert.deepEqual(heights, [8, 10]);
+  // Asked at heads 9, 10 and 11, skipped at head 11
+  assert.equal(calls.get(9), 3);
+});
+
+test('heights above the head wait for it to advance', async () => {
+  let head = 5;
+  let lookups = 0;
+  const { fetcher, calls } = countingFetcher(() => 0);
+  const heights = await tail(
+    fetcher,
+    {
+      async head() {
+        lookups++;
+        // The chain produces a block every other lookup
+        return lookups % 2 === 0 ? ++head : head;
+      },
+    },
+    5,
+    8,
+  );
+  assert.deepEqual(heights, [5, 6, 7]);
+  // Nothing is fetched before it is produced
+  assert.deepEqual([...calls.values()], [1, 1, 1]);
+  assert.equal(lookups, 4);
+});
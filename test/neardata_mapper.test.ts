@@ -0,0 +1,55 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'node:fs';
+import { mapExecutionStatus, mapNeardataBlock } from '../src/neardata_mapper.ts';
+
+const fixture = JSON.parse(readFileSync(new URL('./fixtures/neardata_block.json', import.meta.url), 'utf8'));
+
+test('mapExecutionStatus maps every nearcore ExecutionStatusView variant', () => {
+  assert.deepEqual(mapExecutionStatus('Unknown'), { kind: 'Unknown' });
+  assert.deepEqual(mapExecutionStatus({ Unknown: null }), { kind: 'Unknown' });
+  assert.deepEqual(mapExecutionStatus(null), { kind: 'Unknown' });
+  assert.deepEqual(mapExecutionStatus(undefined), { kind: 'Unknown' });
+  assert.deepEqual(mapExecutionStatus({ SuccessValue: 'dHJ1ZQ==' }), { kind: 'SuccessValue', value: 'dHJ1ZQ==' });
+  assert.deepEqual(mapExecutionStatus({ SuccessValue: null }), { kind: 'SuccessValue', value: '' });
+  assert.deepEqual(mapExecutionStatus({ SuccessReceiptId: 'abc' }), { kind: 'SuccessReceiptId', id: 'abc' });
+  const error = { ActionError: { index: 0, kind: { AccountDoesNotExist: { account_id: 'x.near' } } } };
+  assert.deepEqual(mapExecutionStatus({ Failure: error }), { kind: 'Failure', error });
+  assert.deepEqual(mapExecutionStatus({ Something: 1 }), { kind: 'Unknown' });
+  assert.deepEqual(mapExecutionStatus(42), { kind: 'Unknown' });
+});
+
+test('mapExecutionStatus leaves already mapped statuses alone', () => {
+  const mapped = { kind: 'SuccessValue', value: '' } as const;
+  assert.deepEqual(mapExecutionStatus(mapped), mapped);
+});
+
+test('mapNeardataBlock maps shards, chunks and outcomes', () => {
+  const msg = mapNeardataBlock(fixture);
+  assert.equal(msg.block.header.height, 120000000);
+  assert.equal(msg.shards.length, 2);
+
+  const [shard0, shard1] = msg.shards;
+  assert.equal(shard0.shard_id, 0);
+  assert.equal(shard0.chunk?.transactions.length, 1);
+  const tx = shard0.chunk!.transactions[0];
+  assert.equal(tx.transaction.hash, 'TxHash1');
+  assert.deepEqual(tx.outcome.execution_outcome.outcome.status, { kind: 'SuccessReceiptId', id: 'ReceiptA' });
+
+  const [ok, failed] = shard0.receipt_execution_outcomes;
+  assert.deepEqual(ok.execution_outcome.outcome.status, { kind: 'SuccessValue', value: '' });
+  assert.equal(ok.execution_outcome.outcome.logs.length, 1);
+  assert.equal(ok.tx_hash, 'TxHash0');
+  assert.equal(failed.execution_outcome.outcome.status.kind, 'Failure');
+  // Missing logs are filled in
+  assert.deepEqual(failed.execution_outcome.outcome.logs, []);
+
+  assert.equal(shard1.chunk, undefined);
+  assert.deepEqual(shard1.receipt_execution_outcomes, []);
+});
+
+test('mapNeardataBlock fills in missing shards and rejects JSON without a block', () => {
+  assert.deepEqual(mapNeardataBlock({ block: fixture.block }).shards, []);
+  assert.throws(() => mapNeardataBlock({}), /missing `block`/);
+  assert.throws(() => mapNeardataBlock(null), /missing `block`/);
+});
@@ -0,0 +1,110 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { runIndexer, type IndexerOptions, type OptimisticOptions } from '../src/indexer.ts';
+import { ProviderStreamer } from '../src/message_provider.ts';
+import type { BlockHeight, StreamerMessage } from '../src/types.ts';
+import { makeBlock, MemoryProvider } from './helpers.ts';
+
+// Optimistic blocks 1..5; the final chain has a different block 2 and lags one block behind
+const delivered = [1, 2, 3, 4, 5].map((h) => makeBlock(h));
+function finalBlock(height: BlockHeight): StreamerMessage {
+  const block = makeBlock(height);
+  if (height === 2) block.block.header.hash = 'fork2';
+  return block;
+}
+
+// The final head follows the stream one block behind; `failHead` decides which head lookups throw
+function finalChain(failHead: (call: number) => boolean) {
+  let head = 0;
+  let headCalls = 0;
+  const source: OptimisticOptions = {
+    async getFinalHead() {
+      if (failHead(++headCalls)) throw new Error('final head unavailable');
+      return head;
+    },
+    async getFinalBlock(height: BlockHeight) {
+      return finalBlock(height);
+    },
+  };
+  const provider = new MemoryProvider(delivered);
+  const getMessage = provider.getMessage.bind(provider);
+  provider.getMessage = async (h) => {
+    head = h - 1;
+    return getMessage(h);
+  };
+  return { source, streamer: new ProviderStreamer(provider, 1) };
+}
+
+function run(chain: ReturnType<typeof finalChain>, options: Partial<IndexerOptions> = {}) {
+  const reverts: [BlockHeight, string | undefined][] = [];
+  const blocks: BlockHeight[] = [];
+  const done = runIndexer(
+    {
+      async processBlock(block) {
+        blocks.push(block.block.header.height);
+      },
+      async onRevert(height, replacement) {
+        reverts.push([height, replacement?.block.header.hash]);
+      },
+    },
+    chain.streamer,
+    {
+      stop_on_error: false,
+      ctrl_c_handler: false,
+      genesis_block_height: 0,
+      range: { kind: 'Range', start_inclusive: 1, end_exclusive: 6 },
+      optimistic: chain.source,
+      ...options,
+    },
+  );
+  return { done, reverts, blocks };
+}
+
+test('a delivered block replaced on the final chain is reverted', async () => {
+  const { done, reverts, blocks } = run(finalChain(() => false));
+  await done;
+  assert.deepEqual(blocks, [1, 2, 3, 4, 5]);
+  assert.deepEqual(reverts, [[2, 'fork2']]);
+});
+
+test('a transient final head failure is retried', async () => {
+  const { done, reverts } = run(finalChain((call) => call === 2), {
+    stop_on_error: true,
+    retry: { attempts: 2, backoff_ms: 0 },
+  });
+  await done;
+  assert.deepEqual(reverts, [[2, 'fork2']]);
+});
+
+test('without stop_on_error a failed final head lookup is confirmed with a later block', async () => {
+  const { done, reverts, blocks } = run(finalChain((call) => call === 2 || call === 3));
+  await done;
+  assert.deepEqual(blocks, [1, 2, 3, 4, 5]);
+  assert.deepEqual(reverts, [[2, 'fork2']]);
+});
+
+test('with stop_on_error a failing final head lookup rejects with its own error', async () => {
+  const { done, blocks } = run(finalChain(() => true), { stop_on_error: true });
+  await assert.rejects(done, { message: 'final head unavailable' });
+  assert.deepEqual(blocks, [1]);
+});
+
+test('with stop_on_error a failing onRevert rejects with its own error', async () => {
+  const chain = finalChain(() => false);
+  const done = runIndexer(
+    {
+      async onRevert() {
+        throw new Error('revert failed');
+      },
+    },
+    chain.streamer,
+    {
+      stop_on_error: true,
+      ctrl_c_handler: false,
+      genesis_block_height: 0,
+      range: { kind: 'Range', start_inclusive: 1, end_exclusive: 6 },
+      optimistic: chain.source,
+    },
+  );
+  await assert.rejects(done, { message: 'revert failed' });
+});
@@ -0,0 +1,38 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { BlockTimestampResolver } from '../src/timestamps.ts';
+import { makeBlock, MemoryProvider } from './helpers.ts';
+
+function resolverFor(heights: number[], head: number) {
+  const provider = new MemoryProvider(heights.map((h) => makeBlock(h)));
+  return new BlockTimestampResolver(provider, {
+    genesis_block_height: 1,
+    head: async () => head,
+    max_skipped_blocks: 3,
+  });
+}
+
+// makeBlock stamps height h at h seconds, so the expected answer is the first height >= t.
+// Gaps stay within max_skipped_blocks
+test('heightAt finds the first block at or after a time around skipped heights', async () => {
+  const layouts = [
+    [1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12, 13, 14, 15, 16],
+    [1, 2, 3, 4, 5, 6, 7, 8, 12, 13, 14, 15, 16],
+    [1, 3, 5, 6, 9, 10, 11, 14, 16],
+    [1, 2, 6, 7, 8, 9, 10, 14, 15, 16],
+  ];
+  for (const heights of layouts) {
+    const resolver = resolverFor(heights, 16);
+    for (let t = 1; t <= 16; t++) {
+      const expected = heights.find((h) => h >= t);
+      assert.equal(await resolver.heightAt(t * 1000), expected, `t=${t} in [${heights}]`);
+    }
+    assert.equal(await resolver.heightAt(17 * 1000), undefined);
+  }
+});
+
+test('heightAt accepts dates and ISO strings', async () => {
+  const resolver = resolverFor([1, 2, 3, 4, 5], 5);
+  assert.equal(await resolver.heightAt(new Date(3000)), 3);
+  assert.equal(await resolver.heightAt('1970-01-01T00:00:02.500Z'), 3);
+});